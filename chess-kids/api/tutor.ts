@@ -1,10 +1,12 @@
 // API Route for AI Tutor - Vercel Serverless Function
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-import { generateText } from 'ai';
+import { generateText, jsonSchema, stepCountIs, streamText, tool, type ToolSet } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
 import { google } from '@ai-sdk/google';
 import { anthropic } from '@ai-sdk/anthropic';
-import { extractJson, validateTutorRequest } from '../src/utils/aiUtils.js';
+import { extractJson, validateTutorRequest, formatSseEvent, replyTextDeltas } from '../src/utils/aiUtils.js';
+import { resolveTutorResponse, SAFE_TUTOR_RESPONSE, BUSY_TUTOR_RESPONSE, type TutorResponse } from '../src/utils/tutorSchema.js';
+import { BOARD_TOOLS, MAX_TOOL_STEPS, runBoardTool } from '../src/utils/boardTools.js';
 
 const provider = process.env.AI_PROVIDER || 'local';
 
@@ -32,6 +34,103 @@ function getModel() {
     }
 }
 
+type ModelMessage = { role: 'system' | 'user' | 'assistant'; content: string };
+
+// Board lookups for the model, all answered from the FEN sent by the client
+function buildBoardTools(fen: string): ToolSet {
+    return Object.fromEntries(BOARD_TOOLS.map((spec) => [spec.name, tool({
+        description: spec.description,
+        inputSchema: jsonSchema<Record<string, unknown>>(spec.parameters),
+        execute: async (input) => runBoardTool(fen, spec.name, input),
+    })]));
+}
+
+// Without a FEN there is nothing to look up, so the model gets no tools
+const toolOptions = (fen?: string) => fen
+    ? { tools: buildBoardTools(fen), stopWhen: stepCountIs(MAX_TOOL_STEPS) }
+    : {};
+
+// Replies that still fail the schema after a repair, since this instance started
+let schemaFallbacks = 0;
+
+/**
+ * Checks the model's text against the TutorResponse schema. A bad reply gets
+ * one repair re-prompt; if that fails too, a safe message is sent instead.
+ */
+async function toTutorResponse(text: string, messages: ModelMessage[]): Promise<TutorResponse> {
+    const result = await resolveTutorResponse(text, extractJson, async (repairPrompt) => {
+        const repaired = await generateText({
+            model: getModel(),
+            messages: [
+                ...messages,
+                { role: 'assistant', content: text },
+                { role: 'user', content: repairPrompt }
+            ],
+        });
+        return repaired.text;
+    });
+
+    if (result.outcome === 'repaired') {
+        console.info('[AI Tutor] Repaired a reply that failed the schema');
+    } else if (result.outcome === 'fallback') {
+        schemaFallbacks++;
+        console.warn(`[AI Tutor] Schema fallback #${schemaFallbacks}: ${result.errors.join('; ')}`);
+    }
+    return result.response;
+}
+
+function errorResponse(error: unknown): TutorResponse {
+    // Handle quota/rate limit errors
+    const message = error instanceof Error ? error.message : String(error);
+    if (message.includes('429') || message.includes('quota')) {
+        return BUSY_TUTOR_RESPONSE;
+    }
+
+    return SAFE_TUTOR_RESPONSE;
+}
+
+/**
+ * Streams the reply as Server-Sent Events: a `delta` event for each chunk of
+ * raw model text, then one `done` event with the full TutorResponse.
+ */
+async function streamReply(res: VercelResponse, messages: ModelMessage[], fen?: string) {
+    res.status(200);
+    res.setHeader('Content-Type', 'text/event-stream');
+    res.setHeader('Cache-Control', 'no-cache, no-transform');
+    res.setHeader('Connection', 'keep-alive');
+
+    // streamText reports errors through onError rather than throwing
+    let streamError: unknown = null;
+    const result = streamText({
+        model: getModel(),
+        messages,
+        ...toolOptions(fen),
+        onError: ({ error }) => {
+            streamError = error;
+        },
+    });
+
+    // Only the answering step streams; text before a tool call is not part of the reply
+    for await (const delta of replyTextDeltas(result.fullStream)) {
+        res.write(formatSseEvent('delta', { text: delta }));
+    }
+
+    // Like generateText, `text` is the last step's text
+    let text = '';
+    try {
+        text = await result.text;
+    } catch {
+        // Already reported through onError
+    }
+
+    if (streamError) {
+        console.error('AI Tutor API Error:', streamError);
+    }
+    // The streamed text may still fail the schema; `done` always carries the checked response
+    res.write(formatSseEvent('done', streamError && !text ? errorResponse(streamError) : await toTutorResponse(text, messages)));
+    res.end();
+}
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
     if (req.method !== 'POST') {
         return res.status(405).json({ error: 'Method not allowed' });
@@ -43,9 +142,11 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
             return res.status(400).json({ error: validation.error });
         }
 
-        const { messages, systemPrompt } = req.body as {
+        const { messages, systemPrompt, stream, fen } = req.body as {
             messages: ChatMessage[];
             systemPrompt?: string;
+            stream?: boolean;
+            fen?: string;
         };
 
         // Build the full prompt with system context and conversation history
@@ -56,42 +157,36 @@ Always respond with valid JSON: {"message": "your response", "mood": "encouragin
         // Security: Filter out any client-supplied 'system' messages to prevent prompt injection
         const safeMessages = messages.filter(m => m.role !== 'system');
 
-        const fullMessages = [
-            { role: 'system' as const, content: systemMessage },
+        const toolHint = fen
+            ? '\nYou can call the board tools to check a move or a square before you suggest it. Never guess.'
+            : '';
+
+        const fullMessages: ModelMessage[] = [
+            { role: 'system', content: systemMessage + toolHint },
             ...safeMessages
         ];
 
+        if (stream) {
+            return await streamReply(res, fullMessages, fen);
+        }
+
+        // With tools, `text` is the model's answer after its last lookup
         const { text } = await generateText({
             model: getModel(),
             messages: fullMessages,
+            ...toolOptions(fen),
         });
 
-        // Try to parse as JSON (for structured TutorResponse)
-        const parsed = extractJson(text);
-        if (parsed !== null) {
-            return res.status(200).json(parsed);
-        }
-
-        // If not valid JSON, wrap the text in a TutorResponse structure
-        return res.status(200).json({
-            message: text,
-            mood: 'encouraging'
-        });
-    } catch (error: any) { // eslint-disable-line @typescript-eslint/no-explicit-any
+        return res.status(200).json(await toTutorResponse(text, fullMessages));
+    } catch (error) {
         console.error('AI Tutor API Error:', error);
 
-        // Handle quota/rate limit errors
-        if (error?.message?.includes('429') || error?.message?.includes('quota')) {
-            return res.status(200).json({
-                message: "Wow, I've been thinking too much today! My magic brain needs a little rest. Try again in a minute!",
-                mood: 'thinking'
-            });
+        // Headers are already out once a stream has started, so finish it with the fallback
+        if (res.headersSent) {
+            res.write(formatSseEvent('done', errorResponse(error)));
+            return res.end();
         }
-
-        return res.status(200).json({
-            message: "I'm having a little trouble thinking right now, but keep trying!",
-            mood: 'thinking'
-        });
+        return res.status(200).json(errorResponse(error));
     }
 }
 // Trigger review
@@ -1,13 +1,17 @@
 // Local development server for AI tutor API
-// Run with: node server.js (or npm run server)
+// Run with: npm run server (tsx, so it can import the shared TypeScript in src/utils)
 
 import express from 'express';
 import cors from 'cors';
-import { generateText } from 'ai';
+import { generateText, jsonSchema, stepCountIs, streamText, tool } from 'ai';
 import { createOpenAI } from '@ai-sdk/openai';
 import { google } from '@ai-sdk/google';
 import { anthropic } from '@ai-sdk/anthropic';
 import dotenv from 'dotenv';
+// Shared with the client and api/tutor.ts; `npm run server` runs this file with tsx so these can be TypeScript
+import { extractJson, formatSseEvent, replyTextDeltas } from './src/utils/aiUtils.js';
+import { resolveTutorResponse, SAFE_TUTOR_RESPONSE } from './src/utils/tutorSchema.js';
+import { BOARD_TOOLS, MAX_TOOL_STEPS, runBoardTool } from './src/utils/boardTools.js';
 
 dotenv.config();
 
@@ -35,9 +39,82 @@ function getModel() {
     }
 }
 
+let schemaFallbacks = 0;
+
+// Schema check with one repair re-prompt, then the safe fallback (same as api/tutor.ts)
+async function toTutorResponse(text, messages) {
+    const result = await resolveTutorResponse(text, extractJson, async (repairPrompt) => {
+        const { text: repairedText } = await generateText({
+            model: getModel(),
+            messages: [...messages, { role: 'assistant', content: text }, { role: 'user', content: repairPrompt }]
+        });
+        return repairedText;
+    });
+
+    if (result.outcome === 'repaired') {
+        console.log('[AI Tutor] Repaired a reply that failed the schema');
+    } else if (result.outcome === 'fallback') {
+        schemaFallbacks++;
+        console.warn(`[AI Tutor] Schema fallback #${schemaFallbacks}: ${result.errors.join('; ')}`);
+    }
+    return result.response;
+}
+
+// Board lookups for the model, all answered from the FEN sent by the client
+function buildBoardTools(fen) {
+    return Object.fromEntries(BOARD_TOOLS.map(spec => [spec.name, tool({
+        description: spec.description,
+        inputSchema: jsonSchema(spec.parameters),
+        execute: async (input) => runBoardTool(fen, spec.name, input)
+    })]));
+}
+
+// Without a FEN there is nothing to look up, so the model gets no tools
+const toolOptions = (fen) => fen
+    ? { tools: buildBoardTools(fen), stopWhen: stepCountIs(MAX_TOOL_STEPS) }
+    : {};
+
+// Same Server-Sent Events format as api/tutor.ts: `delta` chunks, then `done`
+async function streamReply(res, messages, fen) {
+    res.writeHead(200, {
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive'
+    });
+
+    let streamError = null;
+    const result = streamText({
+        model: getModel(),
+        messages,
+        ...toolOptions(fen),
+        onError: ({ error }) => {
+            streamError = error;
+        }
+    });
+
+    // Only the answering step streams; text before a tool call is not part of the reply
+    for await (const delta of replyTextDeltas(result.fullStream)) {
+        res.write(formatSseEvent('delta', { text: delta }));
+    }
+
+    // Like generateText, `text` is the last step's text
+    let text = '';
+    try {
+        text = await result.text;
+    } catch {
+        // Already reported through onError
+    }
+
+    if (streamError) {
+        console.error('AI Tutor API Error:', streamError);
+    }
+    res.write(formatSseEvent('done', streamError && !text ? SAFE_TUTOR_RESPONSE : await toTutorResponse(text, messages)));
+    res.end();
+}
+
 app.post('/api/tutor', async (req, res) => {
     try {
-        const { messages, systemPrompt } = req.body;
+        const { messages, systemPrompt, stream, fen } = req.body;
 
         if (!messages || messages.length === 0) {
             return res.status(400).json({ error: 'Messages are required' });
@@ -50,33 +127,35 @@ Always respond with valid JSON: {"message": "your response", "mood": "encouragin
         // Security: Filter out any client-supplied 'system' messages to prevent prompt injection
         const safeMessages = messages.filter(m => m.role !== 'system');
 
+        const toolHint = fen
+            ? '\nYou can call the board tools to check a move or a square before you suggest it. Never guess.'
+            : '';
+
         const fullMessages = [
-            { role: 'system', content: systemMessage },
+            { role: 'system', content: systemMessage + toolHint },
             ...safeMessages
         ];
 
         console.log(`[AI Provider: ${provider}] Processing request...`);
 
+        if (stream) {
+            return await streamReply(res, fullMessages, fen);
+        }
+
         const { text } = await generateText({
             model: getModel(),
             messages: fullMessages,
+            ...toolOptions(fen),
         });
 
-        try {
-            const parsed = JSON.parse(text);
-            return res.json(parsed);
-        } catch {
-            return res.json({
-                message: text,
-                mood: 'encouraging'
-            });
-        }
+        return res.json(await toTutorResponse(text, fullMessages));
     } catch (error) {
         console.error('AI Tutor API Error:', error);
-        return res.json({
-            message: "I'm having a little trouble thinking right now, but keep trying!",
-            mood: 'thinking'
-        });
+        if (res.headersSent) {
+            res.write(formatSseEvent('done', SAFE_TUTOR_RESPONSE));
+            return res.end();
+        }
+        return res.json(SAFE_TUTOR_RESPONSE);
     }
 });
 
@@ -2,6 +2,10 @@ import { BrowserRouter, Routes, Route, useParams } from 'react-router-dom';
 import { ProfileProvider } from './context/ProfileContext';
 import { Home } from './pages/Home';
 import { LessonPage } from './pages/LessonPage';
+import { PuzzlePage } from './pages/PuzzlePage';
+import { CoordinatesPage } from './pages/CoordinatesPage';
+import { StarCollectorPage } from './pages/StarCollectorPage';
+import { PawnWarsPage } from './pages/PawnWarsPage';
 import { ProfileSelect } from './pages/ProfileSelect';
 import { NotFound } from './pages/NotFound';
 import './App.css';
@@ -21,6 +25,10 @@ function App() {
             <Route path="/profiles" element={<ProfileSelect />} />
             <Route path="/" element={<Home />} />
             <Route path="/lesson/:id" element={<LessonPageWrapper />} />
+            <Route path="/puzzles" element={<PuzzlePage />} />
+            <Route path="/coordinates" element={<CoordinatesPage />} />
+            <Route path="/stars" element={<StarCollectorPage />} />
+            <Route path="/pawn-wars" element={<PawnWarsPage />} />
             <Route path="*" element={<NotFound />} />
           </Routes>
         </div>
@@ -0,0 +1,44 @@
+import { motion } from 'framer-motion';
+import { Lock } from 'lucide-react';
+
+interface ActivityCardProps {
+  icon: string;
+  title: string;
+  description: string;
+  isUnlocked: boolean;
+  lockedHint: string;
+  onClick: () => void;
+}
+
+export function ActivityCard({ icon, title, description, isUnlocked, lockedHint, onClick }: ActivityCardProps) {
+  const label = `${title}. ${isUnlocked ? 'Tap to play.' : `Locked. ${lockedHint}`}`;
+
+  return (
+    <motion.button
+      type="button"
+      whileHover={isUnlocked ? { scale: 1.05 } : {}}
+      whileTap={isUnlocked ? { scale: 0.95 } : {}}
+      className={`lesson-card ${isUnlocked ? 'unlocked' : 'locked'}`}
+      onClick={isUnlocked ? onClick : undefined}
+      aria-label={label}
+      aria-disabled={!isUnlocked}
+    >
+      <div className="lesson-icon">
+        {isUnlocked ? (
+          <span className="icon-emoji">{icon}</span>
+        ) : (
+          <Lock size={32} />
+        )}
+      </div>
+      <div className="lesson-info">
+        <h3>{title}</h3>
+        <p>{description}</p>
+        {!isUnlocked && (
+          <div className="unlock-requirement">
+            <span>{lockedHint}</span>
+          </div>
+        )}
+      </div>
+    </motion.button>
+  );
+}
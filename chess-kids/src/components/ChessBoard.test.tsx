@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { render } from '@testing-library/react';
+import { render, act, screen, fireEvent } from '@testing-library/react';
 import { ChessBoard } from './ChessBoard';
 import { Chessboard } from 'react-chessboard';
 
@@ -48,3 +48,82 @@ describe('ChessBoard Performance', () => {
     expect(secondStyles['d4']).toBeDefined();
   });
 });
+
+describe('ChessBoard computer opponent', () => {
+  it('answers the player\'s move when a computer opponent is set', () => {
+    vi.useFakeTimers();
+    const onComputerMove = vi.fn();
+    render(<ChessBoard computerOpponent={{ blunderRate: 0 }} onComputerMove={onComputerMove} />);
+
+    act(() => {
+      mockChessboard.mock.lastCall![0].options.onPieceDrop({ sourceSquare: 'e2', targetSquare: 'e4' });
+    });
+    expect(mockChessboard.mock.lastCall![0].options.position).toContain(' b ');
+
+    act(() => {
+      vi.runAllTimers();
+    });
+
+    expect(onComputerMove).toHaveBeenCalledTimes(1);
+    const [, newFen] = onComputerMove.mock.lastCall!;
+    expect(newFen).toContain(' w ');
+    expect(mockChessboard.mock.lastCall![0].options.position).toBe(newFen);
+    vi.useRealTimers();
+  });
+
+  it('ignores moves while the computer is thinking', () => {
+    vi.useFakeTimers();
+    render(<ChessBoard computerOpponent={{ blunderRate: 0 }} />);
+
+    act(() => {
+      mockChessboard.mock.lastCall![0].options.onPieceDrop({ sourceSquare: 'e2', targetSquare: 'e4' });
+    });
+    const dropped = mockChessboard.mock.lastCall![0].options.onPieceDrop({ sourceSquare: 'd2', targetSquare: 'd4' });
+
+    expect(dropped).toBe(false);
+    vi.useRealTimers();
+  });
+});
+
+describe('ChessBoard game end', () => {
+  it('reports checkmate and stops accepting moves', () => {
+    const onGameEnd = vi.fn();
+    render(<ChessBoard fen="6k1/5ppp/8/8/8/8/8/3R2K1 w - - 0 1" onGameEnd={onGameEnd} />);
+
+    act(() => {
+      mockChessboard.mock.lastCall![0].options.onPieceDrop({ sourceSquare: 'd1', targetSquare: 'd8' });
+    });
+
+    expect(onGameEnd).toHaveBeenCalledWith({ reason: 'checkmate', winner: 'w' });
+    expect(mockChessboard.mock.lastCall![0].options.onPieceDrop({ sourceSquare: 'g1', targetSquare: 'f1' })).toBe(false);
+  });
+});
+
+describe('ChessBoard promotion', () => {
+  it('lets the child pick the promotion piece', () => {
+    const onMove = vi.fn(() => true);
+    render(<ChessBoard fen="8/4P3/8/8/8/8/8/8 w - - 0 1" onMove={onMove} />);
+
+    act(() => {
+      mockChessboard.mock.lastCall![0].options.onPieceDrop({ sourceSquare: 'e7', targetSquare: 'e8' });
+    });
+    expect(onMove).not.toHaveBeenCalled();
+
+    fireEvent.click(screen.getByLabelText('Promote to Knight'));
+
+    expect(onMove).toHaveBeenCalledWith('e7', 'e8', 'p', false, expect.any(String), expect.objectContaining({ promotion: 'n' }));
+    expect(mockChessboard.mock.lastCall![0].options.position).toContain('4N3');
+  });
+
+  it('skips the picker when the promotion piece is fixed', () => {
+    const onMove = vi.fn(() => true);
+    render(<ChessBoard fen="8/4P3/8/8/8/8/8/8 w - - 0 1" onMove={onMove} autoPromotion="q" />);
+
+    act(() => {
+      mockChessboard.mock.lastCall![0].options.onPieceDrop({ sourceSquare: 'e7', targetSquare: 'e8' });
+    });
+
+    expect(screen.queryByLabelText('Promote to Knight')).toBeNull();
+    expect(onMove).toHaveBeenCalledWith('e7', 'e8', 'p', false, expect.any(String), expect.objectContaining({ promotion: 'q' }));
+  });
+});
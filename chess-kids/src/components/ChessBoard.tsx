@@ -1,29 +1,62 @@
-import { useState, useMemo } from 'react';
+import { useState, useMemo, useEffect } from 'react';
 import { Chessboard, type SquareHandlerArgs, type PieceDropHandlerArgs } from 'react-chessboard';
 import { Chess, type Square } from 'chess.js';
+import { chooseMove, type EngineOptions, type EngineMove } from '../services/engine/kidEngine';
+import { getGameOutcome, type GameOutcome } from '../data/lessonEngine';
+import { PromotionPicker } from './PromotionPicker';
+
+// Extra facts about a move that the from/to squares don't tell
+export interface MoveDetails {
+  san: string;
+  flags: string;       // chess.js move flags, e.g. "k" for kingside castling
+  promotion?: string;  // Piece the pawn became
+  captured?: string;   // Type of the captured piece
+  before: string;      // FEN before the move
+}
 
 interface ChessBoardProps {
   fen?: string;
-  onMove?: (from: string, to: string, piece: string, isCapture: boolean, newFen: string) => boolean;
+  onMove?: (from: string, to: string, piece: string, isCapture: boolean, newFen: string, details: MoveDetails) => boolean;
   highlightSquares?: string[];
+  dangerSquares?: string[]; // Shown in red, e.g. the line a check comes from
   customArrows?: string[][]; // Format: [['e2', 'e4']]
   interactive?: boolean;
   boardSize?: number;
   forceWhiteTurn?: boolean;
+  autoPromotion?: string; // Promote straight to this piece instead of asking, e.g. when reaching the end wins
+  computerOpponent?: EngineOptions; // When set, the computer answers every move
+  onComputerMove?: (move: EngineMove, newFen: string) => void;
+  onGameEnd?: (outcome: GameOutcome) => void;
 }
 
 const EMPTY_HIGHLIGHTS: string[] = [];
+const COMPUTER_MOVE_DELAY_MS = 600;
+
+// Piece lessons use boards without kings, which chess.js rejects by default
+const loadGame = (fen?: string) => new Chess(fen, { skipValidation: true });
 
 export function ChessBoard({
   fen,
   onMove,
   highlightSquares = EMPTY_HIGHLIGHTS,
+  dangerSquares = EMPTY_HIGHLIGHTS,
   customArrows = [],
   interactive = true,
   boardSize = 400,
   forceWhiteTurn = false,
+  autoPromotion,
+  computerOpponent,
+  onComputerMove,
+  onGameEnd,
 }: ChessBoardProps) {
-  const [game, setGame] = useState(() => new Chess(fen));
+  const [game, setGame] = useState(() => loadGame(fen));
+  // Position the computer still has to answer
+  const [pendingComputerFen, setPendingComputerFen] = useState<string | null>(null);
+  // Every position since the board was set up, for threefold repetition
+  const [positionHistory, setPositionHistory] = useState(() => [loadGame(fen).fen()]);
+  const [gameOutcome, setGameOutcome] = useState<GameOutcome | null>(null);
+  // Pawn move waiting for the child to pick a piece
+  const [pendingPromotion, setPendingPromotion] = useState<{ from: string; to: string } | null>(null);
 
   const [selectedSquare, setSelectedSquare] = useState<string | null>(null);
   const [moveSquares, setMoveSquares] = useState<Record<string, React.CSSProperties>>({});
@@ -32,7 +65,11 @@ export function ChessBoard({
   const [prevFen, setPrevFen] = useState(fen);
   if (fen !== prevFen) {
     setPrevFen(fen);
-    setGame(new Chess(fen));
+    setGame(loadGame(fen));
+    setPendingComputerFen(null);
+    setPositionHistory([loadGame(fen).fen()]);
+    setGameOutcome(null);
+    setPendingPromotion(null);
     setSelectedSquare(null);
     setMoveSquares({});
   }
@@ -54,8 +91,36 @@ export function ChessBoard({
     return highlights;
   };
 
+  // Give the computer a moment so the child can see their own move land first
+  useEffect(() => {
+    if (!pendingComputerFen) return;
+
+    const timer = setTimeout(() => {
+      setPendingComputerFen(null);
+      const reply = chooseMove(pendingComputerFen, computerOpponent);
+      if (!reply) return;
+
+      const next = loadGame(pendingComputerFen);
+      next.move({ from: reply.from, to: reply.to, promotion: reply.promotion });
+      setGame(next);
+      onComputerMove?.(reply, next.fen());
+
+      const history = [...positionHistory, next.fen()];
+      setPositionHistory(history);
+      const outcome = getGameOutcome(next.fen(), history);
+      if (outcome) {
+        setGameOutcome(outcome);
+        onGameEnd?.(outcome);
+      }
+    }, COMPUTER_MOVE_DELAY_MS);
+
+    return () => clearTimeout(timer);
+  }, [pendingComputerFen, computerOpponent, onComputerMove, positionHistory, onGameEnd]);
+
+  const canMove = interactive && !pendingComputerFen && !gameOutcome && !pendingPromotion;
+
   const handleSquareClick = ({ square }: SquareHandlerArgs) => {
-    if (!interactive) return;
+    if (!canMove) return;
     const sq = square as Square;
 
     if (selectedSquare) {
@@ -73,20 +138,54 @@ export function ChessBoard({
     }
   };
 
-  const handleMove = (from: string, to: string) => {
+  const isPromotionMove = (from: string, to: string) =>
+    game.moves({ square: from as Square, verbose: true }).some((move) => move.to === to && move.promotion);
+
+  const handleMove = (from: string, to: string, promotion = autoPromotion) => {
     try {
+      // Let the child choose the new piece before the move is played
+      if (!promotion && isPromotionMove(from, to)) {
+        setPendingPromotion({ from, to });
+        return true;
+      }
+
       const piece = game.get(from as Square)?.type || '';
 
-      const move = game.move({ from, to, promotion: 'q' });
+      const move = game.move({ from, to, promotion });
       const isCapture = !!move?.captured; // Check capture flag from move result
       if (move) {
         const nextFen = forceWhiteTurn
           ? game.fen().replace(/ [bw] /, ' w ')
           : game.fen();
 
-        setGame(new Chess(nextFen));
-        if (onMove) {
-          return onMove(from, to, piece, isCapture, nextFen);
+        const details: MoveDetails = {
+          san: move.san,
+          flags: move.flags,
+          promotion: move.promotion,
+          captured: move.captured,
+          before: move.before,
+        };
+
+        // The parent can reject a move (e.g. a wrong puzzle answer) by returning false
+        const accepted = onMove ? onMove(from, to, piece, isCapture, nextFen, details) : true;
+        if (!accepted) {
+          game.undo();
+          return false;
+        }
+
+        setGame(loadGame(nextFen));
+
+        // A forced turn isn't a real game position, so it can't end the game
+        if (forceWhiteTurn) return true;
+
+        const history = [...positionHistory, nextFen];
+        setPositionHistory(history);
+        const outcome = getGameOutcome(nextFen, history);
+        if (outcome) {
+          setGameOutcome(outcome);
+          onGameEnd?.(outcome);
+        } else if (computerOpponent) {
+          setPendingComputerFen(nextFen);
         }
         return true;
       }
@@ -97,10 +196,16 @@ export function ChessBoard({
   };
 
   const onDrop = ({ sourceSquare, targetSquare }: PieceDropHandlerArgs) => {
-    if (!interactive || !targetSquare) return false;
+    if (!canMove || !targetSquare) return false;
     return handleMove(sourceSquare, targetSquare);
   };
 
+  const handlePromotionSelect = (piece: string) => {
+    if (!pendingPromotion) return;
+    setPendingPromotion(null);
+    handleMove(pendingPromotion.from, pendingPromotion.to, piece);
+  };
+
   const customSquareStyles = useMemo(() => {
     const styles: Record<string, React.CSSProperties> = {
       ...moveSquares,
@@ -113,6 +218,14 @@ export function ChessBoard({
       };
     }
 
+    dangerSquares.forEach((sq) => {
+      styles[sq] = {
+        ...styles[sq],
+        backgroundColor: 'rgba(255, 107, 107, 0.45)',
+        boxShadow: 'inset 0 0 15px rgba(255, 107, 107, 0.9)',
+      };
+    });
+
     highlightSquares.forEach((sq) => {
       styles[sq] = {
         ...styles[sq],
@@ -123,7 +236,7 @@ export function ChessBoard({
     });
 
     return styles;
-  }, [moveSquares, selectedSquare, highlightSquares]);
+  }, [moveSquares, selectedSquare, highlightSquares, dangerSquares]);
 
   const arrows = useMemo(() => {
     return customArrows.map(arrow => ({
@@ -150,6 +263,13 @@ export function ChessBoard({
           lightSquareStyle: { backgroundColor: '#edeed1' },
         }}
       />
+      {pendingPromotion && (
+        <PromotionPicker
+          color={game.turn()}
+          onSelect={handlePromotionSelect}
+          onCancel={() => setPendingPromotion(null)}
+        />
+      )}
     </div>
   );
 }
@@ -1,4 +1,4 @@
-import { render } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { ExploreBoard } from './ExploreBoard';
 import { describe, it, expect, vi } from 'vitest';
 
@@ -32,21 +32,39 @@ describe('ExploreBoard', () => {
       return (squares[index] as HTMLElement).style.background;
     };
 
-    // a8: fileIndex 0, rank 8.
-    // isLight = (0 + 8) % 2 === 1 -> False.
-    // Color: #88a65e (Dark)
+    // a8: fileIndex 0, rank 8. Same as h1, a light square.
+    // Color: #f0f1d8 (Light)
     const colorA8 = getSquareColor(0, 8);
-    expect(colorA8).toBe('rgb(136, 166, 94)'); // #88a65e
+    expect(colorA8).toBe('rgb(240, 241, 216)'); // #f0f1d8
 
-    // a1: fileIndex 0, rank 1.
-    // isLight = (0 + 1) % 2 === 1 -> True.
-    // Color: #f0f1d8 (Light)
+    // a1: fileIndex 0, rank 1. Every board starts with a dark corner on the left.
+    // Color: #88a65e (Dark)
     const colorA1 = getSquareColor(0, 1);
-    expect(colorA1).toBe('rgb(240, 241, 216)'); // #f0f1d8
+    expect(colorA1).toBe('rgb(136, 166, 94)'); // #88a65e
 
-    // b8: fileIndex 1, rank 8.
-    // isLight = (1 + 8) % 2 === 1 -> True.
+    // b8: fileIndex 1, rank 8. Next to a light square, so dark.
     const colorB8 = getSquareColor(1, 8);
-    expect(colorB8).toBe('rgb(240, 241, 216)');
+    expect(colorB8).toBe('rgb(136, 166, 94)');
+
+    // h1: the light square on the right, "light on right"
+    const colorH1 = getSquareColor(7, 1);
+    expect(colorH1).toBe('rgb(240, 241, 216)');
+  });
+
+  it('asks about the quiz square and reports the answer', () => {
+    const onColorAnswer = vi.fn();
+    render(
+      <ExploreBoard
+        tappedSquares={new Set<string>()}
+        tappedCorners={new Set<string>()}
+        onSquareTap={vi.fn()}
+        quizSquare="f5"
+        onColorAnswer={onColorAnswer}
+      />
+    );
+
+    expect(screen.getByText('Is f5 light or dark?')).toBeTruthy();
+    fireEvent.click(screen.getByText('☀️ Light'));
+    expect(onColorAnswer).toHaveBeenCalledWith('light');
   });
 });
@@ -1,11 +1,13 @@
 import { motion } from 'framer-motion';
-import { CORNER_SQUARES } from '../data/lessonEngine';
+import { CORNER_SQUARES, getSquareColor, type SquareColor } from '../data/lessonEngine';
 
 interface ExploreBoardProps {
   tappedSquares: Set<string>;
   tappedCorners: Set<string>;
   onSquareTap: (square: string) => void;
   highlightCorners?: boolean;
+  quizSquare?: string; // Square-color quiz: the square being asked about
+  onColorAnswer?: (color: SquareColor) => void;
   boardSize?: number;
 }
 
@@ -17,14 +19,12 @@ export function ExploreBoard({
   tappedCorners,
   onSquareTap,
   highlightCorners = false,
+  quizSquare,
+  onColorAnswer,
   boardSize = 400,
 }: ExploreBoardProps) {
   const squareSize = boardSize / 8;
 
-  const isLightSquare = (fileIndex: number, rank: number) => {
-    return (fileIndex + rank) % 2 === 1;
-  };
-
   const getSquareStyle = (square: string, isLight: boolean) => {
     const isTapped = tappedSquares.has(square);
     const isCorner = CORNER_SQUARES.includes(square);
@@ -37,6 +37,10 @@ export function ExploreBoard({
     let boxShadow = 'none';
     let borderColor = 'transparent';
 
+    if (square === quizSquare) {
+      boxShadow = 'inset 0 0 15px rgba(255, 200, 0, 0.8), 0 0 10px rgba(255, 200, 0, 0.4)';
+    }
+
     if (highlightCorners && isCorner) {
       if (cornerTapped) {
         boxShadow = 'inset 0 0 15px rgba(107, 203, 119, 0.8)';
@@ -56,88 +60,118 @@ export function ExploreBoard({
   };
 
   return (
-    <div
-      className="explore-board"
-      style={{
-        width: boardSize,
-        height: boardSize,
-        display: 'grid',
-        gridTemplateColumns: `repeat(8, ${squareSize}px)`,
-        gridTemplateRows: `repeat(8, ${squareSize}px)`,
-        borderRadius: '8px',
-        overflow: 'hidden',
-        boxShadow: '0 8px 24px rgba(0, 0, 0, 0.3)',
-      }}
-    >
-      {RANKS.map((rank) =>
-        FILES.map((file, fileIndex) => {
-          const square = `${file}${rank}`;
-          const isLight = isLightSquare(fileIndex, rank);
-          const styles = getSquareStyle(square, isLight);
-          const isFirstFile = file === 'a';
-          const isLastRank = rank === 1;
+    <>
+      <div
+        className="explore-board"
+        style={{
+          width: boardSize,
+          height: boardSize,
+          display: 'grid',
+          gridTemplateColumns: `repeat(8, ${squareSize}px)`,
+          gridTemplateRows: `repeat(8, ${squareSize}px)`,
+          borderRadius: '8px',
+          overflow: 'hidden',
+          boxShadow: '0 8px 24px rgba(0, 0, 0, 0.3)',
+        }}
+      >
+        {RANKS.map((rank) =>
+          FILES.map((file) => {
+            const square = `${file}${rank}`;
+            const isLight = getSquareColor(square) === 'light';
+            const styles = getSquareStyle(square, isLight);
+            const isFirstFile = file === 'a';
+            const isLastRank = rank === 1;
+
+            return (
+              <motion.button
+                key={square}
+                className="explore-square"
+                style={{
+                  width: squareSize,
+                  height: squareSize,
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  position: 'relative', // Added for absolute positioning of labels
+                  ...styles,
+                }}
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => onSquareTap(square)}
+              >
+                {/* Rank labels (numbers 1-8) on the first file (a) */}
+                {isFirstFile && (
+                  <span
+                    style={{
+                      position: 'absolute',
+                      top: 2,
+                      left: 2,
+                      fontSize: squareSize * 0.15,
+                      fontWeight: 'bold',
+                      color: isLight ? 'rgba(0,0,0,0.3)' : 'rgba(255,255,255,0.3)',
+                      pointerEvents: 'none',
+                    }}
+                  >
+                    {rank}
+                  </span>
+                )}
+
+                {/* File labels (letters a-h) on the last rank (1) */}
+                {isLastRank && (
+                  <span
+                    style={{
+                      position: 'absolute',
+                      bottom: 2,
+                      right: 2,
+                      fontSize: squareSize * 0.15,
+                      fontWeight: 'bold',
+                      color: isLight ? 'rgba(0,0,0,0.3)' : 'rgba(255,255,255,0.3)',
+                      pointerEvents: 'none',
+                    }}
+                  >
+                    {file}
+                  </span>
+                )}
+
+                {CORNER_SQUARES.includes(square) && highlightCorners && (
+                  <span style={{ fontSize: squareSize * 0.5, zIndex: 1 }}>
+                    {tappedCorners.has(square) ? '✓' : '★'}
+                  </span>
+                )}
+
+                {square === quizSquare && (
+                  <span style={{ fontSize: squareSize * 0.5, fontWeight: 'bold', zIndex: 1 }}>?</span>
+                )}
+              </motion.button>
+            );
+          })
+        )}
+      </div>
 
-          return (
+      {quizSquare && onColorAnswer && (
+        <div className="color-quiz">
+          <p className="picker-title">Is {quizSquare} light or dark?</p>
+          <div className="color-quiz-buttons">
             <motion.button
-              key={square}
-              className="explore-square"
-              style={{
-                width: squareSize,
-                height: squareSize,
-                cursor: 'pointer',
-                display: 'flex',
-                alignItems: 'center',
-                justifyContent: 'center',
-                position: 'relative', // Added for absolute positioning of labels
-                ...styles,
-              }}
+              className="color-quiz-button light"
               whileHover={{ scale: 1.05 }}
               whileTap={{ scale: 0.95 }}
-              onClick={() => onSquareTap(square)}
+              onClick={() => onColorAnswer('light')}
             >
-              {/* Rank labels (numbers 1-8) on the first file (a) */}
-              {isFirstFile && (
-                <span
-                  style={{
-                    position: 'absolute',
-                    top: 2,
-                    left: 2,
-                    fontSize: squareSize * 0.15,
-                    fontWeight: 'bold',
-                    color: isLight ? 'rgba(0,0,0,0.3)' : 'rgba(255,255,255,0.3)',
-                    pointerEvents: 'none',
-                  }}
-                >
-                  {rank}
-                </span>
-              )}
-
-              {/* File labels (letters a-h) on the last rank (1) */}
-              {isLastRank && (
-                <span
-                  style={{
-                    position: 'absolute',
-                    bottom: 2,
-                    right: 2,
-                    fontSize: squareSize * 0.15,
-                    fontWeight: 'bold',
-                    color: isLight ? 'rgba(0,0,0,0.3)' : 'rgba(255,255,255,0.3)',
-                    pointerEvents: 'none',
-                  }}
-                >
-                  {file}
-                </span>
-              )}
-
-              {CORNER_SQUARES.includes(square) && highlightCorners && (
-                <span style={{ fontSize: squareSize * 0.5, zIndex: 1 }}>
-                  {tappedCorners.has(square) ? '✓' : '★'}
-                </span>
-              )}
+              ☀️ Light
+            </motion.button>
+            <motion.button
+              className="color-quiz-button dark"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={() => onColorAnswer('dark')}
+            >
+              🌙 Dark
             </motion.button>
-          );
-        })
+          </div>
+        </div>
       )}
-    </div>
+    </>
   );
 }
@@ -0,0 +1,67 @@
+import { motion, AnimatePresence } from 'framer-motion';
+import type { GameOutcome, GameEndReason } from '../data/lessonEngine';
+
+interface GameOverScreenProps {
+  outcome: GameOutcome | null;
+  onComplete: () => void;
+}
+
+// Wins use Celebration instead; this covers losses and draws
+const ANNOUNCEMENTS: Record<GameEndReason, { icon: string; title: string; detail: string }> = {
+  'checkmate': {
+    icon: '🤖',
+    title: 'The robot won this time!',
+    detail: 'Even chess champions lose games. Let\'s play again!',
+  },
+  'stalemate': {
+    icon: '🤝',
+    title: 'Stalemate! It\'s a draw',
+    detail: 'The king is not in check, but it has no safe moves left.',
+  },
+  'threefold-repetition': {
+    icon: '🔁',
+    title: 'It\'s a draw!',
+    detail: 'The same position happened three times.',
+  },
+  'insufficient-material': {
+    icon: '🤝',
+    title: 'It\'s a draw!',
+    detail: 'Nobody has enough pieces left to checkmate.',
+  },
+  'fifty-move-rule': {
+    icon: '⏳',
+    title: 'It\'s a draw!',
+    detail: '50 moves in a row without a capture or a pawn move.',
+  },
+};
+
+export function GameOverScreen({ outcome, onComplete }: GameOverScreenProps) {
+  const announcement = outcome ? ANNOUNCEMENTS[outcome.reason] : null;
+
+  return (
+    <AnimatePresence>
+      {announcement && (
+        <motion.div
+          className="celebration-overlay"
+          initial={{ opacity: 0 }}
+          animate={{ opacity: 1 }}
+          exit={{ opacity: 0 }}
+          onClick={onComplete}
+        >
+          <motion.div
+            className="celebration-content"
+            initial={{ scale: 0 }}
+            animate={{ scale: 1 }}
+            exit={{ scale: 0 }}
+            transition={{ type: 'spring', damping: 15 }}
+          >
+            <div className="game-over-icon">{announcement.icon}</div>
+            <h1>{announcement.title}</h1>
+            <p className="game-over-detail">{announcement.detail}</p>
+            <p className="tap-continue">Tap to play again</p>
+          </motion.div>
+        </motion.div>
+      )}
+    </AnimatePresence>
+  );
+}
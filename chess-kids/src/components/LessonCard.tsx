@@ -1,22 +1,23 @@
 import { motion } from 'framer-motion';
 import { Lock, Star } from 'lucide-react';
 import type { Lesson } from '../data/lessons';
-import { useProfile } from '../hooks/useProfile';
+import type { LessonStatus } from '../data/lessonGraph';
 
 interface LessonCardProps {
   lesson: Lesson;
+  status: LessonStatus;
+  lockReason?: string | null;
   onClick: () => void;
 }
 
-export function LessonCard({ lesson, onClick }: LessonCardProps) {
-  const { currentProgress } = useProfile();
-  const isUnlocked = currentProgress.stars >= lesson.unlockStars;
-  const isCompleted = currentProgress.completedLessons.includes(lesson.id);
+export function LessonCard({ lesson, status, lockReason, onClick }: LessonCardProps) {
+  const isUnlocked = status !== 'locked';
+  const isCompleted = status === 'completed';
 
   // Construct a descriptive label for screen readers
   const label = `${lesson.title}. ${
     !isUnlocked
-      ? `Locked. Needs ${lesson.unlockStars} stars.`
+      ? `Locked. ${lockReason}.`
       : isCompleted
         ? 'Completed. Tap to play again.'
         : 'Tap to start.'
@@ -42,10 +43,10 @@ export function LessonCard({ lesson, onClick }: LessonCardProps) {
       <div className="lesson-info">
         <h3>{lesson.title}</h3>
         <p>{lesson.description}</p>
-        {!isUnlocked && (
+        {!isUnlocked && lockReason && (
           <div className="unlock-requirement">
-            <Star size={14} fill="#FFD700" color="#FFD700" />
-            <span>{lesson.unlockStars} stars to unlock</span>
+            <Lock size={14} />
+            <span>{lockReason}</span>
           </div>
         )}
         {isCompleted && (
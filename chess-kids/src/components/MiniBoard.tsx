@@ -0,0 +1,55 @@
+import { getPlacement, getSquareColor } from '../data/lessonEngine';
+import { PIECE_GLYPHS } from '../data/pieceGlyphs';
+
+interface MiniBoardProps {
+  fen: string;
+  size?: number;
+}
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+const RANKS = [8, 7, 6, 5, 4, 3, 2, 1];
+
+// Small, static picture of a position, e.g. as a quiz answer
+export function MiniBoard({ fen, size = 120 }: MiniBoardProps) {
+  const placement = getPlacement(fen);
+  const squareSize = size / 8;
+
+  return (
+    <div
+      className="mini-board"
+      role="img"
+      aria-label={`Board ${fen.split(' ')[0]}`}
+      style={{
+        width: size,
+        height: size,
+        display: 'grid',
+        gridTemplateColumns: `repeat(8, ${squareSize}px)`,
+        gridTemplateRows: `repeat(8, ${squareSize}px)`,
+        borderRadius: '4px',
+        overflow: 'hidden',
+      }}
+    >
+      {RANKS.map((rank) =>
+        FILES.map((file) => {
+          const square = `${file}${rank}`;
+          const piece = placement[square];
+
+          return (
+            <div
+              key={square}
+              style={{
+                background: getSquareColor(square) === 'light' ? '#edeed1' : '#779952',
+                fontSize: squareSize * 0.8,
+                lineHeight: `${squareSize}px`,
+                textAlign: 'center',
+                color: '#222',
+              }}
+            >
+              {piece ? PIECE_GLYPHS[piece] : ''}
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
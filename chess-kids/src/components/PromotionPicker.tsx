@@ -0,0 +1,50 @@
+import { motion } from 'framer-motion';
+
+interface PromotionPickerProps {
+  color: 'w' | 'b';
+  onSelect: (piece: 'q' | 'r' | 'b' | 'n') => void;
+  onCancel: () => void;
+}
+
+const CHOICES = [
+  { piece: 'q', name: 'Queen', white: '♕', black: '♛' },
+  { piece: 'r', name: 'Rook', white: '♖', black: '♜' },
+  { piece: 'b', name: 'Bishop', white: '♗', black: '♝' },
+  { piece: 'n', name: 'Knight', white: '♘', black: '♞' },
+] as const;
+
+export function PromotionPicker({ color, onSelect, onCancel }: PromotionPickerProps) {
+  return (
+    <motion.div
+      className="promotion-overlay"
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      onClick={onCancel}
+    >
+      <motion.div
+        className="promotion-picker"
+        initial={{ scale: 0.5 }}
+        animate={{ scale: 1 }}
+        transition={{ type: 'spring', damping: 15 }}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <h3>Your pawn made it! Pick a new piece:</h3>
+        <div className="promotion-choices">
+          {CHOICES.map((choice) => (
+            <motion.button
+              key={choice.piece}
+              className="promotion-choice"
+              whileHover={{ scale: 1.1 }}
+              whileTap={{ scale: 0.9 }}
+              onClick={() => onSelect(choice.piece)}
+              aria-label={`Promote to ${choice.name}`}
+            >
+              <span className="promotion-icon">{color === 'w' ? choice.white : choice.black}</span>
+              <span className="promotion-name">{choice.name}</span>
+            </motion.button>
+          ))}
+        </div>
+      </motion.div>
+    </motion.div>
+  );
+}
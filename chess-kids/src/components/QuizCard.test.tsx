@@ -0,0 +1,62 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { QuizCard } from './QuizCard';
+import { describe, it, expect, vi } from 'vitest';
+import type { QuizQuestion } from '../data/lessonEngine';
+
+const pieceQuiz: QuizQuestion = {
+  question: 'Which piece moves in an L?',
+  options: [
+    { kind: 'piece', value: 'B', explanation: 'The bishop slides diagonally.' },
+    { kind: 'piece', value: 'N' },
+    { kind: 'piece', value: 'R' },
+  ],
+  correctOption: 1,
+};
+
+describe('QuizCard', () => {
+  it('shows the question and each kind of option', () => {
+    render(
+      <QuizCard
+        quiz={{
+          question: 'Pick one',
+          options: [
+            { kind: 'number', value: '8' },
+            { kind: 'piece', value: 'Q' },
+            { kind: 'square', value: 'e4' },
+            { kind: 'board', value: '8/8/8/8/8/8/8/4K3 w - - 0 1' },
+          ],
+          correctOption: 0,
+        }}
+        onAnswer={vi.fn()}
+      />
+    );
+
+    expect(screen.getByText('Pick one')).toBeTruthy();
+    expect(screen.getByText('8')).toBeTruthy();
+    expect(screen.getByText('♕')).toBeTruthy();
+    expect(screen.getByText('e4')).toBeTruthy();
+    expect(screen.getByRole('img', { name: 'Board 8/8/8/8/8/8/8/4K3' })).toBeTruthy();
+  });
+
+  it('explains a wrong answer and disables it', () => {
+    const onAnswer = vi.fn();
+    render(<QuizCard quiz={pieceQuiz} onAnswer={onAnswer} />);
+
+    fireEvent.click(screen.getByLabelText('Answer 1'));
+
+    expect(onAnswer).toHaveBeenCalledWith(0, false);
+    expect(screen.getByText(/The bishop slides diagonally/)).toBeTruthy();
+    expect((screen.getByLabelText('Answer 1') as HTMLButtonElement).disabled).toBe(true);
+
+    fireEvent.click(screen.getByLabelText('Answer 3'));
+    expect(screen.getByText(/Not quite. Try again!/)).toBeTruthy();
+  });
+
+  it('reports the right answer', () => {
+    const onAnswer = vi.fn();
+    render(<QuizCard quiz={pieceQuiz} onAnswer={onAnswer} />);
+
+    fireEvent.click(screen.getByLabelText('Answer 2'));
+    expect(onAnswer).toHaveBeenCalledWith(1, true);
+  });
+});
@@ -0,0 +1,65 @@
+import { useState } from 'react';
+import { motion } from 'framer-motion';
+import { MiniBoard } from './MiniBoard';
+import { isQuizAnswerCorrect, type QuizOption, type QuizQuestion } from '../data/lessonEngine';
+import { PIECE_GLYPHS } from '../data/pieceGlyphs';
+
+interface QuizCardProps {
+  quiz: QuizQuestion;
+  onAnswer: (optionIndex: number, isCorrect: boolean) => void;
+}
+
+const DEFAULT_EXPLANATION = 'Not quite. Try again!';
+
+function OptionContent({ option }: { option: QuizOption }) {
+  switch (option.kind) {
+    case 'piece':
+      return <span className="quiz-piece">{PIECE_GLYPHS[option.value] || option.value}</span>;
+    case 'board':
+      return <MiniBoard fen={option.value} />;
+    case 'square':
+      return <span className="quiz-square">{option.value}</span>;
+    default:
+      return <span className="quiz-number">{option.value}</span>;
+  }
+}
+
+// Remount with a new key for each question so wrong picks start fresh
+export function QuizCard({ quiz, onAnswer }: QuizCardProps) {
+  const [wrongPicks, setWrongPicks] = useState<number[]>([]);
+  const [explanation, setExplanation] = useState<string | null>(null);
+
+  const pick = (index: number) => {
+    const isCorrect = isQuizAnswerCorrect(quiz, index);
+    if (!isCorrect) {
+      setWrongPicks((prev) => (prev.includes(index) ? prev : [...prev, index]));
+      setExplanation(quiz.options[index].explanation || DEFAULT_EXPLANATION);
+    }
+    onAnswer(index, isCorrect);
+  };
+
+  return (
+    <div className="quiz-card">
+      <h3 className="picker-title">{quiz.question}</h3>
+      <div className="quiz-options">
+        {quiz.options.map((option, index) => {
+          const isWrong = wrongPicks.includes(index);
+          return (
+            <motion.button
+              key={index}
+              className={`quiz-option ${option.kind} ${isWrong ? 'wrong' : ''}`}
+              whileHover={isWrong ? {} : { scale: 1.05 }}
+              whileTap={isWrong ? {} : { scale: 0.95 }}
+              disabled={isWrong}
+              aria-label={`Answer ${index + 1}`}
+              onClick={() => pick(index)}
+            >
+              <OptionContent option={option} />
+            </motion.button>
+          );
+        })}
+      </div>
+      {explanation && <p className="quiz-explanation">💡 {explanation}</p>}
+    </div>
+  );
+}
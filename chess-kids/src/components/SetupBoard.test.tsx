@@ -0,0 +1,55 @@
+import { render, screen, fireEvent } from '@testing-library/react';
+import { SetupBoard } from './SetupBoard';
+import { describe, it, expect, vi } from 'vitest';
+
+const TARGET = '8/8/8/8/8/8/8/R3K2R w - - 0 1';
+
+describe('SetupBoard', () => {
+  it('shows the target pieces in the tray', () => {
+    render(<SetupBoard placedPieces={{ a1: 'R' }} targetFen={TARGET} onPlace={vi.fn()} onRemove={vi.fn()} />);
+
+    expect(screen.getAllByRole('button', { name: /^[a-h][1-8]/ })).toHaveLength(64);
+    expect(screen.getByLabelText('Tray K').textContent).toContain('×1');
+    expect(screen.getByLabelText('Tray R').textContent).toContain('×1');
+    expect(screen.getByLabelText('Tray R').textContent).toContain('1/2');
+  });
+
+  it('places a piece picked from the tray', () => {
+    const onPlace = vi.fn();
+    const onWrongPlacement = vi.fn();
+    render(<SetupBoard placedPieces={{}} targetFen={TARGET} onPlace={onPlace} onRemove={vi.fn()} onWrongPlacement={onWrongPlacement} />);
+
+    fireEvent.click(screen.getByLabelText('Tray K'));
+    fireEvent.click(screen.getByLabelText('e1'));
+
+    expect(onPlace).toHaveBeenCalledWith('e1', 'K', undefined);
+    expect(onWrongPlacement).not.toHaveBeenCalled();
+  });
+
+  it('glows and hints when a piece lands on the wrong square', () => {
+    const onWrongPlacement = vi.fn();
+    const { rerender } = render(
+      <SetupBoard placedPieces={{}} targetFen={TARGET} onPlace={vi.fn()} onRemove={vi.fn()} onWrongPlacement={onWrongPlacement} />
+    );
+
+    fireEvent.click(screen.getByLabelText('Tray R'));
+    fireEvent.click(screen.getByLabelText('d4'));
+    rerender(
+      <SetupBoard placedPieces={{ d4: 'R' }} targetFen={TARGET} onPlace={vi.fn()} onRemove={vi.fn()} onWrongPlacement={onWrongPlacement} />
+    );
+
+    expect(onWrongPlacement).toHaveBeenCalledWith('R', 'd4');
+    expect(screen.getByText(/Rooks live on a1 and h1/)).toBeTruthy();
+    expect(screen.getByLabelText('d4 R').style.boxShadow).toContain('255, 107, 107');
+  });
+
+  it('drags a placed piece back to the tray', () => {
+    const onRemove = vi.fn();
+    const { container } = render(<SetupBoard placedPieces={{ d4: 'R' }} targetFen={TARGET} onPlace={vi.fn()} onRemove={onRemove} />);
+
+    fireEvent.dragStart(container.querySelector('.setup-piece')!);
+    fireEvent.drop(container.querySelector('.setup-tray')!);
+
+    expect(onRemove).toHaveBeenCalledWith('d4');
+  });
+});
@@ -0,0 +1,174 @@
+import { useMemo, useState } from 'react';
+import { getMisplacedSquares, getPlacement, getSetupHint, getSquareColor, scoreSetup } from '../data/lessonEngine';
+import { PIECE_GLYPHS } from '../data/pieceGlyphs';
+
+interface SetupBoardProps {
+  placedPieces: Record<string, string>;
+  targetFen: string;
+  onPlace: (square: string, piece: string, fromSquare?: string) => void;
+  onRemove: (square: string) => void;
+  onWrongPlacement?: (piece: string, square: string) => void;
+  boardSize?: number;
+}
+
+// A piece the child is carrying, from the tray or from another square
+interface HeldPiece {
+  piece: string;
+  from?: string;
+}
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+const RANKS = [8, 7, 6, 5, 4, 3, 2, 1];
+
+export function SetupBoard({
+  placedPieces,
+  targetFen,
+  onPlace,
+  onRemove,
+  onWrongPlacement,
+  boardSize = 400,
+}: SetupBoardProps) {
+  const squareSize = boardSize / 8;
+  const [held, setHeld] = useState<HeldPiece | null>(null);
+  const [hint, setHint] = useState<string | null>(null);
+
+  const target = useMemo(() => getPlacement(targetFen), [targetFen]);
+  const misplaced = useMemo(() => getMisplacedSquares(placedPieces, targetFen), [placedPieces, targetFen]);
+  const scores = useMemo(() => scoreSetup(placedPieces, targetFen), [placedPieces, targetFen]);
+
+  // Whatever isn't on the board yet waits in the tray
+  const tray = scores.map((score) => ({
+    ...score,
+    left: score.total - Object.values(placedPieces).filter((piece) => piece === score.piece).length,
+  }));
+
+  const dropOn = (square: string, carried: HeldPiece) => {
+    setHeld(null);
+    if (carried.from === square) return;
+
+    onPlace(square, carried.piece, carried.from);
+    if (target[square] === carried.piece) {
+      setHint(null);
+    } else {
+      setHint(getSetupHint(carried.piece, targetFen));
+      onWrongPlacement?.(carried.piece, square);
+    }
+  };
+
+  const returnToTray = () => {
+    if (held?.from) onRemove(held.from);
+    setHeld(null);
+  };
+
+  const handleSquareTap = (square: string) => {
+    if (held) {
+      dropOn(square, held);
+    } else if (placedPieces[square]) {
+      setHeld({ piece: placedPieces[square], from: square });
+    }
+  };
+
+  const handleTrayTap = (piece: string, left: number) => {
+    if (held?.from) {
+      returnToTray();
+    } else if (left > 0) {
+      setHeld(held?.piece === piece ? null : { piece });
+    }
+  };
+
+  return (
+    <div className="setup-board">
+      <div
+        style={{
+          width: boardSize,
+          height: boardSize,
+          display: 'grid',
+          gridTemplateColumns: `repeat(8, ${squareSize}px)`,
+          gridTemplateRows: `repeat(8, ${squareSize}px)`,
+          borderRadius: '8px',
+          overflow: 'hidden',
+          boxShadow: '0 8px 24px rgba(0, 0, 0, 0.3)',
+        }}
+      >
+        {RANKS.map((rank) =>
+          FILES.map((file) => {
+            const square = `${file}${rank}`;
+            const isLight = getSquareColor(square) === 'light';
+            const piece = placedPieces[square];
+            const isWrong = misplaced.includes(square);
+            const isHeld = held?.from === square;
+
+            let boxShadow = 'none';
+            if (isWrong) boxShadow = 'inset 0 0 15px rgba(255, 107, 107, 0.9), 0 0 10px rgba(255, 107, 107, 0.5)';
+            if (isHeld) boxShadow = 'inset 0 0 20px rgba(255, 217, 61, 0.8)';
+
+            return (
+              <button
+                key={square}
+                className="setup-square"
+                aria-label={piece ? `${square} ${piece}` : square}
+                style={{
+                  width: squareSize,
+                  height: squareSize,
+                  background: isLight ? '#edeed1' : '#779952',
+                  boxShadow,
+                  border: 'none',
+                  padding: 0,
+                  cursor: 'pointer',
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                }}
+                onClick={() => handleSquareTap(square)}
+                onDragOver={(e) => e.preventDefault()}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (held) dropOn(square, held);
+                }}
+              >
+                {piece && (
+                  <span
+                    className={`setup-piece ${isWrong ? 'wrong' : ''}`}
+                    draggable
+                    onDragStart={() => setHeld({ piece, from: square })}
+                    style={{ fontSize: squareSize * 0.75 }}
+                  >
+                    {PIECE_GLYPHS[piece]}
+                  </span>
+                )}
+              </button>
+            );
+          })
+        )}
+      </div>
+
+      {/* Plain elements on purpose: motion components take over onDragStart for their own gestures */}
+      <div
+        className="setup-tray"
+        onDragOver={(e) => e.preventDefault()}
+        onDrop={(e) => {
+          e.preventDefault();
+          returnToTray();
+        }}
+      >
+        {tray.map(({ piece, left, correct, total }) => (
+          <button
+            key={piece}
+            className={`setup-tray-piece ${held?.piece === piece && !held.from ? 'held' : ''} ${left === 0 ? 'empty' : ''}`}
+            aria-label={`Tray ${piece}`}
+            draggable={left > 0}
+            onDragStart={() => setHeld({ piece })}
+            onClick={() => handleTrayTap(piece, left)}
+          >
+            <span className="setup-tray-icon">{PIECE_GLYPHS[piece]}</span>
+            <span className="setup-tray-count">×{left}</span>
+            {/* Partial credit: each kind of piece gets its own tick */}
+            <span className="setup-tray-score">{correct === total ? '✓' : `${correct}/${total}`}</span>
+          </button>
+        ))}
+      </div>
+
+      {hint && <p className="setup-hint">💡 {hint}</p>}
+    </div>
+  );
+}
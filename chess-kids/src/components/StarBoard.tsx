@@ -0,0 +1,94 @@
+import { motion } from 'framer-motion';
+import { getSquareColor } from '../data/lessonEngine';
+import { getStarMoves, type StarGameState, type StarLevel } from '../data/starCollector';
+import { PIECE_GLYPHS } from '../data/pieceGlyphs';
+
+interface StarBoardProps {
+  level: StarLevel;
+  state: StarGameState;
+  onSquareTap: (square: string) => void;
+  interactive?: boolean;
+  boardSize?: number;
+}
+
+const FILES = ['a', 'b', 'c', 'd', 'e', 'f', 'g', 'h'];
+const RANKS = [8, 7, 6, 5, 4, 3, 2, 1];
+
+export function StarBoard({ level, state, onSquareTap, interactive = true, boardSize = 400 }: StarBoardProps) {
+  const squareSize = boardSize / 8;
+  const targets = interactive ? getStarMoves(level.piece, state.square, level.blockers) : [];
+
+  return (
+    <div
+      className="star-board"
+      style={{
+        width: boardSize,
+        height: boardSize,
+        display: 'grid',
+        gridTemplateColumns: `repeat(8, ${squareSize}px)`,
+        gridTemplateRows: `repeat(8, ${squareSize}px)`,
+        borderRadius: '8px',
+        overflow: 'hidden',
+        boxShadow: '0 8px 24px rgba(0, 0, 0, 0.3)',
+      }}
+    >
+      {RANKS.map((rank) =>
+        FILES.map((file) => {
+          const square = `${file}${rank}`;
+          const isPiece = square === state.square;
+          const hasStar = level.stars.includes(square) && !state.collected.includes(square);
+          const isBlocker = level.blockers.includes(square);
+          const isTarget = targets.includes(square);
+
+          return (
+            <button
+              key={square}
+              className="star-square"
+              aria-label={square}
+              disabled={!isTarget}
+              onClick={() => onSquareTap(square)}
+              style={{
+                width: squareSize,
+                height: squareSize,
+                background: getSquareColor(square) === 'light' ? '#edeed1' : '#779952',
+                boxShadow: isTarget && hasStar ? 'inset 0 0 12px rgba(107, 203, 119, 0.9)' : 'none',
+                border: 'none',
+                padding: 0,
+                cursor: isTarget ? 'pointer' : 'default',
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'center',
+                position: 'relative',
+                fontSize: squareSize * 0.6,
+              }}
+            >
+              {isPiece && (
+                <motion.span
+                  key={`${square}-${state.moves}`}
+                  initial={{ scale: 0.6 }}
+                  animate={{ scale: 1 }}
+                  style={{ fontSize: squareSize * 0.75, lineHeight: 1, color: '#222' }}
+                >
+                  {PIECE_GLYPHS[level.piece.toUpperCase()]}
+                </motion.span>
+              )}
+              {!isPiece && hasStar && <span>⭐</span>}
+              {isBlocker && <span>🪨</span>}
+              {isTarget && !hasStar && (
+                <span
+                  style={{
+                    position: 'absolute',
+                    width: squareSize * 0.25,
+                    height: squareSize * 0.25,
+                    borderRadius: '50%',
+                    background: 'rgba(107, 203, 119, 0.6)',
+                  }}
+                />
+              )}
+            </button>
+          );
+        })
+      )}
+    </div>
+  );
+}
@@ -11,12 +11,13 @@ interface ChatMessage {
 interface TutorMascotProps {
   messages: ChatMessage[];
   isLoading: boolean;
+  streamingMessage?: string | null;
   onSendMessage: (message: string) => void;
   onClose: () => void;
   latestMood?: TutorResponse['mood'];
 }
 
-export function TutorMascot({ messages, isLoading, onSendMessage, onClose, latestMood }: TutorMascotProps) {
+export function TutorMascot({ messages, isLoading, streamingMessage, onSendMessage, onClose, latestMood }: TutorMascotProps) {
   const [inputValue, setInputValue] = useState('');
   const [isExpanded, setIsExpanded] = useState(false);
   const chatContainerRef = useRef<HTMLDivElement>(null);
@@ -26,7 +27,7 @@ export function TutorMascot({ messages, isLoading, onSendMessage, onClose, lates
     if (chatContainerRef.current) {
       chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
     }
-  }, [messages]);
+  }, [messages, streamingMessage]);
 
   // Auto-expand when there are messages
   useEffect(() => {
@@ -81,14 +82,19 @@ export function TutorMascot({ messages, isLoading, onSendMessage, onClose, lates
                     </div>
                   </div>
                 ))}
+                {/* Typing dots only until the first words of a streamed reply arrive */}
                 {isLoading && (
                   <div className="chat-message assistant">
                     <span className="message-avatar">🧙‍♂️</span>
-                    <div className="message-bubble typing">
-                      <span></span>
-                      <span></span>
-                      <span></span>
-                    </div>
+                    {streamingMessage ? (
+                      <div className="message-bubble streaming">{streamingMessage}</div>
+                    ) : (
+                      <div className="message-bubble typing">
+                        <span></span>
+                        <span></span>
+                        <span></span>
+                      </div>
+                    )}
                   </div>
                 )}
               </div>
@@ -32,6 +32,7 @@ const TestComponent = () => {
     createProfile,
     selectProfile,
     addStars,
+    recordBestTime,
     currentProgress
   } = useProfile();
 
@@ -51,6 +52,9 @@ const TestComponent = () => {
       </div>
 
       <button onClick={() => addStars(1)}>Add Star</button>
+      <div data-testid="best-time">{currentProgress.bestTimes?.coordinates ?? 'none'}</div>
+      <button onClick={() => recordBestTime('coordinates', 20000)}>Finish in 20s</button>
+      <button onClick={() => recordBestTime('coordinates', 15000)}>Finish in 15s</button>
     </div>
   );
 };
@@ -114,4 +118,34 @@ describe('ProfileContext Functional', () => {
     expect(getByTestId('current-profile-name')).toHaveTextContent('Bob');
     expect(getByTestId('stars')).toHaveTextContent('2'); // Should persist
   });
+
+  it('keeps the best time per profile', async () => {
+    const { getByText, getByTestId } = render(
+      <ProfileProvider>
+        <TestComponent />
+      </ProfileProvider>
+    );
+
+    await act(async () => {
+      getByText('Create Alice').click();
+    });
+    expect(getByTestId('best-time')).toHaveTextContent('none');
+
+    await act(async () => {
+      getByText('Finish in 20s').click();
+    });
+    await act(async () => {
+      getByText('Finish in 15s').click();
+    });
+    await act(async () => {
+      getByText('Finish in 20s').click();
+    });
+    expect(getByTestId('best-time')).toHaveTextContent('15000');
+
+    // Bob starts without a best time
+    await act(async () => {
+      getByText('Create Bob').click();
+    });
+    expect(getByTestId('best-time')).toHaveTextContent('none');
+  });
 });
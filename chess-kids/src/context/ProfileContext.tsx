@@ -138,6 +138,34 @@ export function ProfileProvider({ children }: { children: ReactNode }) {
     });
   };
 
+  // Returns true when the time beats the profile's previous best
+  const recordBestTime = (activity: string, timeMs: number) => {
+    if (!data.currentProfileId) return false;
+
+    const previousBest = currentProgress.bestTimes?.[activity];
+    if (previousBest !== undefined && previousBest <= timeMs) return false;
+
+    setData(prev => {
+      const currentId = prev.currentProfileId!;
+      const oldProgress = prev.progress[currentId] || defaultProgress;
+
+      return {
+        ...prev,
+        progress: {
+          ...prev.progress,
+          [currentId]: {
+            ...oldProgress,
+            bestTimes: {
+              ...oldProgress.bestTimes,
+              [activity]: timeMs,
+            },
+          },
+        },
+      };
+    });
+    return true;
+  };
+
   const resetProgress = () => {
     updateProgress({ ...defaultProgress });
   };
@@ -159,6 +187,7 @@ export function ProfileProvider({ children }: { children: ReactNode }) {
         updateProgress,
         addStars,
         completeLesson,
+        recordBestTime,
         resetProgress,
         getProfileStars,
       }}
@@ -17,6 +17,7 @@ export interface ProfileContextType {
   updateProgress: (progress: Partial<ProfileProgress>) => void;
   addStars: (count: number) => void;
   completeLesson: (lessonId: number) => void;
+  recordBestTime: (activity: string, timeMs: number) => boolean;
   resetProgress: () => void;
   getProfileStars: (profileId: string) => number;
 }
@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import {
+  COORDINATE_ROUND_LENGTH,
+  createCoordinateRound,
+  createFindSquareObjective,
+  handleCoordinateTap,
+  getTargetSquare,
+  getRoundTime,
+  getStruggles,
+  describeStruggles,
+  pickRandomSquare,
+  formatTime,
+} from './coordinateTrainer';
+
+// Always picks the first square that is allowed: a1, or b1 right after a1
+const first = () => 0;
+
+describe('coordinateTrainer', () => {
+  it('asks for a square with a find-square objective', () => {
+    const round = createCoordinateRound(0, first);
+    expect(getTargetSquare(round)).toBe('a1');
+    expect(round.objective).toEqual(createFindSquareObjective('a1'));
+    expect(round.objective.description).toBe('Tap a1!');
+  });
+
+  it('never asks the same square twice in a row', () => {
+    expect(pickRandomSquare('a1', first)).toBe('b1');
+    expect(pickRandomSquare(undefined, first)).toBe('a1');
+  });
+
+  it('moves on after a correct tap', () => {
+    const { round, correct } = handleCoordinateTap(createCoordinateRound(0, first), 'a1', 500, first);
+
+    expect(correct).toBe(true);
+    expect(round.correct).toBe(1);
+    expect(round.asked).toBe(2);
+    expect(getTargetSquare(round)).toBe('b1');
+    expect(round.lessonState.tappedSquares.size).toBe(0);
+  });
+
+  it('counts a wrong tap against the asked file and rank', () => {
+    const { round, correct } = handleCoordinateTap(createCoordinateRound(0, first), 'b1', 500, first);
+
+    expect(correct).toBe(false);
+    expect(round.misses).toBe(1);
+    expect(round.missesByFile).toEqual({ a: 1 });
+    expect(round.missesByRank).toEqual({ 1: 1 });
+    expect(getTargetSquare(round)).toBe('a1');
+  });
+
+  it('finishes after the last square and records the time', () => {
+    let round = createCoordinateRound(1000, first);
+    for (let i = 0; i < COORDINATE_ROUND_LENGTH; i++) {
+      round = handleCoordinateTap(round, getTargetSquare(round), 1000 + (i + 1) * 1500, first).round;
+    }
+
+    expect(round.correct).toBe(COORDINATE_ROUND_LENGTH);
+    expect(getRoundTime(round)).toBe(COORDINATE_ROUND_LENGTH * 1500);
+    expect(handleCoordinateTap(round, 'a1', 99999).correct).toBe(false);
+    expect(formatTime(getRoundTime(round)!)).toBe('15.0s');
+  });
+
+  it('turns repeated misses into struggle facts', () => {
+    const round = {
+      ...createCoordinateRound(0, first),
+      missesByFile: { d: 2, e: 3, a: 1 },
+      missesByRank: { 4: 2 },
+    };
+
+    const struggles = getStruggles(round);
+    expect(struggles).toEqual({ files: ['d', 'e'], ranks: ['4'] });
+    expect(describeStruggles(struggles)).toEqual([
+      {
+        fact: 'Struggles with the d/e files when reading coordinates',
+        entities: ['coordinates/file-d', 'coordinates/file-e'],
+      },
+      {
+        fact: 'Struggles with rank 4 when reading coordinates',
+        entities: ['coordinates/rank-4'],
+      },
+    ]);
+  });
+});
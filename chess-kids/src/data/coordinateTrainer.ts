@@ -0,0 +1,149 @@
+import {
+  ALL_SQUARES,
+  checkObjectiveComplete,
+  createInitialLessonState,
+  handleSquareTap,
+  resetObjectiveState,
+  type LessonObjective,
+  type LessonState,
+} from './lessonEngine';
+
+export const COORDINATE_ACTIVITY = 'coordinates';
+export const COORDINATE_ROUND_LENGTH = 10;
+// Misses on one file or rank before Gloop is told about it
+export const STRUGGLE_MIN_MISSES = 2;
+
+export interface CoordinateRound {
+  objective: LessonObjective; // Current "Tap e4!" question
+  lessonState: LessonState;
+  asked: number;              // Questions shown so far, including the current one
+  correct: number;
+  misses: number;
+  missesByFile: Record<string, number>; // Keyed by the file of the square that was asked
+  missesByRank: Record<string, number>;
+  startedAt: number;
+  finishedAt?: number;
+}
+
+export function createFindSquareObjective(square: string): LessonObjective {
+  return {
+    id: `find-${square}`,
+    description: `Tap ${square}!`,
+    validator: { type: 'find-square', requiredSquares: [square] },
+  };
+}
+
+export function getTargetSquare(round: CoordinateRound): string {
+  return round.objective.validator.requiredSquares![0];
+}
+
+/** A random square, never the same one twice in a row. */
+export function pickRandomSquare(previous?: string, random: () => number = Math.random): string {
+  const choices = ALL_SQUARES.filter((square) => square !== previous);
+  return choices[Math.floor(random() * choices.length)];
+}
+
+export function createCoordinateRound(now: number, random: () => number = Math.random): CoordinateRound {
+  return {
+    objective: createFindSquareObjective(pickRandomSquare(undefined, random)),
+    lessonState: createInitialLessonState(),
+    asked: 1,
+    correct: 0,
+    misses: 0,
+    missesByFile: {},
+    missesByRank: {},
+    startedAt: now,
+  };
+}
+
+/**
+ * Checks a tap against the current question. A right tap moves on to the next
+ * square (or finishes the round); a wrong one is counted against the file and
+ * rank that were asked, so repeated trouble with e.g. the d-file shows up.
+ */
+export function handleCoordinateTap(
+  round: CoordinateRound,
+  square: string,
+  now: number,
+  random: () => number = Math.random
+): { round: CoordinateRound; correct: boolean } {
+  if (round.finishedAt) return { round, correct: false };
+
+  const lessonState = handleSquareTap(square, round.lessonState);
+  const target = getTargetSquare(round);
+
+  if (!checkObjectiveComplete(round.objective, lessonState)) {
+    const [file, rank] = target;
+    return {
+      correct: false,
+      round: {
+        ...round,
+        lessonState,
+        misses: round.misses + 1,
+        missesByFile: { ...round.missesByFile, [file]: (round.missesByFile[file] || 0) + 1 },
+        missesByRank: { ...round.missesByRank, [rank]: (round.missesByRank[rank] || 0) + 1 },
+      },
+    };
+  }
+
+  const correct = round.correct + 1;
+  if (correct >= COORDINATE_ROUND_LENGTH) {
+    return { correct: true, round: { ...round, lessonState, correct, finishedAt: now } };
+  }
+
+  return {
+    correct: true,
+    round: {
+      ...round,
+      objective: createFindSquareObjective(pickRandomSquare(target, random)),
+      lessonState: resetObjectiveState(lessonState),
+      asked: round.asked + 1,
+      correct,
+    },
+  };
+}
+
+export function getRoundTime(round: CoordinateRound): number | null {
+  return round.finishedAt ? round.finishedAt - round.startedAt : null;
+}
+
+export interface CoordinateStruggles {
+  files: string[];
+  ranks: string[];
+}
+
+export function getStruggles(round: CoordinateRound): CoordinateStruggles {
+  const struggling = (misses: Record<string, number>) =>
+    Object.keys(misses).filter((key) => misses[key] >= STRUGGLE_MIN_MISSES).sort();
+
+  return {
+    files: struggling(round.missesByFile),
+    ranks: struggling(round.missesByRank),
+  };
+}
+
+/** Memory facts for a round, e.g. "Struggles with the d/e files when reading coordinates". */
+export function describeStruggles(struggles: CoordinateStruggles): { fact: string; entities: string[] }[] {
+  const facts: { fact: string; entities: string[] }[] = [];
+
+  if (struggles.files.length > 0) {
+    const plural = struggles.files.length > 1 ? 'files' : 'file';
+    facts.push({
+      fact: `Struggles with the ${struggles.files.join('/')} ${plural} when reading coordinates`,
+      entities: struggles.files.map((file) => `${COORDINATE_ACTIVITY}/file-${file}`),
+    });
+  }
+  if (struggles.ranks.length > 0) {
+    const plural = struggles.ranks.length > 1 ? 'ranks' : 'rank';
+    facts.push({
+      fact: `Struggles with ${plural} ${struggles.ranks.join('/')} when reading coordinates`,
+      entities: struggles.ranks.map((rank) => `${COORDINATE_ACTIVITY}/rank-${rank}`),
+    });
+  }
+
+  return facts;
+}
+
+export function formatTime(ms: number): string {
+  return `${(ms / 1000).toFixed(1)}s`;
+}
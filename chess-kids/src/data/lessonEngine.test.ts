@@ -1,14 +1,56 @@
 import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
 import {
   createInitialLessonState,
   checkObjectiveComplete,
   handleSquareTap,
   handleMove,
+  undoMove,
   handleAnswer,
+  describeMove,
+  getSquareColor,
   lessonConfigs,
+  resetObjectiveState,
+  getObjectiveStartFen,
+  getNextOpponentReply,
+  playOpponentReply,
+  handleOpponentReply,
+  handleGameEnd,
+  getGameOutcome,
+  getDemoPositions,
   CORNER_SQUARES,
+  getCheckLine,
+  expectsSingleMove,
+  isWrongMove,
+  handlePlacePiece,
+  handleRemovePiece,
+  handleColorAnswer,
+  getNextColorQuizSquare,
+  isQuizAnswerCorrect,
+  scoreSetup,
+  getMisplacedSquares,
+  getSetupHint,
+  getPlacement,
+  SETUP_ARMY_FEN,
+  type LessonObjective,
+  type LessonState,
 } from './lessonEngine';
 
+// Plays a move with chess.js and feeds it to the engine like ChessBoard does
+function playMove(state: LessonState, fen: string, san: string): LessonState {
+  const move = new Chess(fen, { skipValidation: true }).move(san);
+  return handleMove(state, {
+    piece: move.piece,
+    from: move.from,
+    to: move.to,
+    isCapture: !!move.captured,
+    captured: move.captured,
+    flags: move.flags,
+    fenBefore: move.before,
+    fen: move.after,
+  });
+}
+
 describe('lessonEngine', () => {
   describe('createInitialLessonState', () => {
     it('creates empty initial state', () => {
@@ -74,6 +116,42 @@ describe('lessonEngine', () => {
     });
   });
 
+  describe('describeMove', () => {
+    it('records signed file and rank deltas', () => {
+      const move = describeMove({ piece: 'r', from: 'd4', to: 'a4', isCapture: false });
+      expect(move.fileDelta).toBe(-3);
+      expect(move.rankDelta).toBe(0);
+    });
+
+    it('classifies move directions', () => {
+      const direction = (from: string, to: string) =>
+        describeMove({ piece: 'q', from, to, isCapture: false }).direction;
+
+      expect(direction('d4', 'h4')).toBe('horizontal');
+      expect(direction('d4', 'd8')).toBe('vertical');
+      expect(direction('d4', 'a1')).toBe('diagonal');
+      expect(direction('e5', 'f7')).toBe('l-jump');
+      expect(direction('e5', 'c4')).toBe('l-jump');
+      expect(direction('a1', 'c4')).toBe('irregular');
+    });
+
+    it('records the color of the from and to squares', () => {
+      const move = describeMove({ piece: 'n', from: 'e5', to: 'f7', isCapture: false });
+      expect(move.fromColor).toBe('dark');
+      expect(move.toColor).toBe('light');
+    });
+  });
+
+  describe('getSquareColor', () => {
+    it('matches the real chessboard colors', () => {
+      expect(getSquareColor('a1')).toBe('dark');
+      expect(getSquareColor('h1')).toBe('light');
+      expect(getSquareColor('a8')).toBe('light');
+      expect(getSquareColor('e4')).toBe('light');
+      expect(getSquareColor('d4')).toBe('dark');
+    });
+  });
+
   describe('Lesson 1: Meet the Board', () => {
     const lesson1 = lessonConfigs[1];
 
@@ -159,28 +237,229 @@ describe('lessonEngine', () => {
     });
   });
 
-  describe('Lesson 8: Capture', () => {
-    const lesson8 = lessonConfigs[8];
+  describe('Lesson 3: Knight Movement', () => {
+    const objective = lessonConfigs[3].objectives[0];
+
+    it('is complete after an L-shaped jump', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, { piece: 'n', from: 'e5', to: 'g6', isCapture: false });
+      expect(checkObjectiveComplete(objective, state)).toBe(true);
+    });
+
+    it('is NOT complete after a straight move', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, { piece: 'n', from: 'e5', to: 'e6', isCapture: false });
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+    });
+  });
+
+  describe('Lesson 4: Rook Movement', () => {
+    const [horizontal, vertical, across] = lessonConfigs[4].objectives;
+
+    it('requires a horizontal move first', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, { piece: 'r', from: 'd4', to: 'd7', isCapture: false });
+      expect(checkObjectiveComplete(horizontal, state)).toBe(false);
+
+      state = handleMove(state, { piece: 'r', from: 'd7', to: 'g7', isCapture: false });
+      expect(checkObjectiveComplete(horizontal, state)).toBe(true);
+    });
+
+    it('then requires a vertical move', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, { piece: 'r', from: 'g4', to: 'a4', isCapture: false });
+      expect(checkObjectiveComplete(vertical, state)).toBe(false);
+
+      state = handleMove(state, { piece: 'r', from: 'a4', to: 'a1', isCapture: false });
+      expect(checkObjectiveComplete(vertical, state)).toBe(true);
+    });
+
+    it('accepts either straight direction to finish', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, { piece: 'r', from: 'a1', to: 'h1', isCapture: false });
+      expect(checkObjectiveComplete(across, state)).toBe(true);
+    });
+  });
+
+  describe('Lesson 6: Queen Movement', () => {
+    const diagonalObjective = lessonConfigs[6].objectives[1];
+
+    it('only accepts a diagonal move for the diagonal objective', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, { piece: 'q', from: 'd4', to: 'd8', isCapture: false });
+      expect(checkObjectiveComplete(diagonalObjective, state)).toBe(false);
 
-    describe('Capture objective', () => {
-      const objective = lesson8.objectives[0];
+      state = handleMove(state, { piece: 'q', from: 'd8', to: 'h4', isCapture: false });
+      expect(checkObjectiveComplete(diagonalObjective, state)).toBe(true);
+    });
+  });
 
+  describe('Lesson 8: Capture', () => {
+    const [fivePawns, differentPieces, staySafe] = lessonConfigs[8].objectives;
+
+    describe('Capture 5 pawns', () => {
       it('is not complete with 0 captures', () => {
         const state = createInitialLessonState();
-        expect(checkObjectiveComplete(objective, state)).toBe(false);
+        expect(checkObjectiveComplete(fivePawns, state)).toBe(false);
       });
 
-      it('is complete after capture', () => {
+      it('counts captured pawns until all 5 are taken', () => {
+        const route = ['Rxa4', 'Rxf4', 'Rxf7', 'Rxc7', 'Rxc2'];
+        let fen = lessonConfigs[8].fen!;
         let state = createInitialLessonState();
-        state = handleMove(state, { piece: 'r', from: 'd4', to: 'd6', isCapture: true });
-        expect(checkObjectiveComplete(objective, state)).toBe(true);
+
+        route.forEach((san, index) => {
+          expect(checkObjectiveComplete(fivePawns, state)).toBe(false);
+          state = playMove(state, fen, san);
+          // The capture board always hands the turn back to White
+          fen = state.lastMove!.fen!.replace(' b ', ' w ');
+          expect(state.capturedPieces.p).toBe(index + 1);
+        });
+
+        expect(checkObjectiveComplete(fivePawns, state)).toBe(true);
+      });
+
+      it('does not count captures of other pieces', () => {
+        let state = createInitialLessonState();
+        for (let i = 0; i < 5; i++) {
+          state = handleMove(state, { piece: 'r', from: 'a1', to: 'a5', isCapture: true, captured: 'n' });
+        }
+        expect(state.capturesByPiece.r).toBe(5);
+        expect(checkObjectiveComplete(fivePawns, state)).toBe(false);
+      });
+    });
+
+    it('needs captures by different piece types', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, { piece: 'r', from: 'a1', to: 'a5', isCapture: true, captured: 'p' });
+      state = handleMove(state, { piece: 'r', from: 'a5', to: 'g5', isCapture: true, captured: 'n' });
+      state = handleMove(state, { piece: 'n', from: 'b1', to: 'c3', isCapture: true, captured: 'b' });
+      expect(checkObjectiveComplete(differentPieces, state)).toBe(false);
+
+      state = handleMove(state, { piece: 'b', from: 'c1', to: 'g5', isCapture: true, captured: 'n' });
+      expect(checkObjectiveComplete(differentPieces, state)).toBe(true);
+    });
+
+    it('undoes a second capture by the rook so the other pieces keep their targets', () => {
+      const first = playMove(createInitialLessonState(), differentPieces.fen!, 'Rxa5');
+      expect(isWrongMove(differentPieces.validator, first)).toBe(false);
+
+      const afterFirst = first.lastMove!.fen!.replace(' b ', ' w ');
+      const second = playMove(first, afterFirst, 'Rxg5');
+      expect(isWrongMove(differentPieces.validator, second)).toBe(true);
+
+      // Quiet moves are still fine
+      expect(isWrongMove(differentPieces.validator, playMove(first, afterFirst, 'Ra6'))).toBe(false);
+
+      const undone = undoMove(second, first);
+      expect(undone.capturesByPiece).toEqual({ r: 1 });
+      const knight = playMove(undone, afterFirst, 'Nxc3');
+      expect(isWrongMove(differentPieces.validator, knight)).toBe(false);
+    });
+
+    it('only accepts a capture that cannot be taken back', () => {
+      expect(checkObjectiveComplete(staySafe, playMove(createInitialLessonState(), staySafe.fen!, 'Qxe5'))).toBe(false);
+      expect(checkObjectiveComplete(staySafe, playMove(createInitialLessonState(), staySafe.fen!, 'Qxb4'))).toBe(true);
+    });
+
+    it('does not keep an undone capture for the next move', () => {
+      const before = createInitialLessonState();
+      const wrong = playMove(before, staySafe.fen!, 'Qxe5');
+      expect(checkObjectiveComplete(staySafe, wrong)).toBe(false);
+
+      // LessonPage resets the board, so the quiet move is played from the start position
+      const undone = undoMove(wrong, before);
+      expect(undone).toMatchObject({ moveCount: 0, captureCount: 0, capturesByPiece: {}, capturedPieces: {}, moveHistory: [] });
+      expect(checkObjectiveComplete(staySafe, playMove(undone, staySafe.fen!, 'Qe2'))).toBe(false);
+    });
+
+    it('treats counting captures as several moves, not one', () => {
+      expect(expectsSingleMove(fivePawns.validator)).toBe(false);
+      expect(expectsSingleMove(differentPieces.validator)).toBe(false);
+      expect(expectsSingleMove(staySafe.validator)).toBe(true);
+      expect(expectsSingleMove({ type: 'capture' })).toBe(true);
+    });
+  });
+
+  describe('Lesson 9: Checkmate', () => {
+    const [anyMate, queenMate, objective] = lessonConfigs[9].objectives;
+
+    it('gives every board objective its own position', () => {
+      lessonConfigs[9].objectives.forEach((objective, index) => {
+        // The closing quiz is answered off the board
+        if (objective.validator.type === 'quiz') return;
+        expect(getObjectiveStartFen(lessonConfigs[9], index)).toBeTruthy();
+      });
+    });
+
+    it('accepts checkmate with any piece for the first objective', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, {
+        piece: 'n', from: 'g5', to: 'f7', isCapture: false,
+        fen: playOpponentReply(anyMate.fen!, 'Nf7')!,
+      });
+      expect(checkObjectiveComplete(anyMate, state)).toBe(true);
+    });
+
+    it('requires the queen for the queen objective', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, {
+        piece: 'q', from: 'd1', to: 'd8', isCapture: false,
+        fen: playOpponentReply(queenMate.fen!, 'Qd8')!,
+      });
+      expect(checkObjectiveComplete(queenMate, state)).toBe(true);
+    });
+
+    it('is complete when the rook delivers checkmate', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, {
+        piece: 'r', from: 'e1', to: 'e8', isCapture: false,
+        fen: '4R1k1/5ppp/8/8/8/8/8/6K1 b - - 1 1',
+      });
+      expect(checkObjectiveComplete(objective, state)).toBe(true);
+    });
+
+    it('is NOT complete when the rook gives check but the king escapes', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, {
+        piece: 'r', from: 'e1', to: 'e8', isCapture: false,
+        fen: '4R1k1/5pp1/7p/8/8/8/8/6K1 b - - 1 1',
+      });
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+    });
+
+    it('is NOT complete for a quiet rook move', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, {
+        piece: 'r', from: 'e1', to: 'e4', isCapture: false,
+        fen: '6k1/5ppp/8/8/4R3/8/8/6K1 b - - 1 1',
       });
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+    });
+
+    it('is NOT complete when a different piece delivers checkmate', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, {
+        piece: 'q', from: 'e1', to: 'e8', isCapture: false,
+        fen: '4Q1k1/5ppp/8/8/8/8/8/6K1 b - - 1 1',
+      });
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+    });
+
+    it('is NOT complete without a resulting position', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, { piece: 'r', from: 'e1', to: 'e8', isCapture: false });
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
     });
   });
 
   describe('any-moves validator', () => {
     it('requires specified number of moves', () => {
-      const objective = lessonConfigs[8].objectives[1];
+      const objective: LessonObjective = {
+        id: 'test',
+        description: 'Make 2 moves',
+        validator: { type: 'any-moves', requiredCount: 2 },
+      };
       let state = createInitialLessonState();
 
       state = handleMove(state, { piece: 'p', from: 'e2', to: 'e3', isCapture: false });
@@ -190,4 +469,553 @@ describe('lessonEngine', () => {
       expect(checkObjectiveComplete(objective, state)).toBe(true);
     });
   });
+
+  describe('objective setups and scripted replies', () => {
+    it('starts the first objective from the lesson position', () => {
+      expect(getObjectiveStartFen(lessonConfigs[2], 0)).toBe(lessonConfigs[2].fen);
+    });
+
+    it('continues the current board when an objective has no setup', () => {
+      expect(getObjectiveStartFen(lessonConfigs[2], 1)).toBeNull();
+    });
+
+    it('hands out replies in order', () => {
+      const objective: LessonObjective = {
+        id: 'story',
+        description: 'Your turn, their turn',
+        validator: { type: 'any-moves', requiredCount: 3 },
+        opponentReplies: ['e5', 'Nc6'],
+      };
+      let state = createInitialLessonState();
+      expect(getNextOpponentReply(objective, state)).toBe('e5');
+
+      state = handleOpponentReply(state);
+      expect(getNextOpponentReply(objective, state)).toBe('Nc6');
+
+      state = handleOpponentReply(state);
+      expect(getNextOpponentReply(objective, state)).toBeUndefined();
+
+      state = resetObjectiveState(state);
+      expect(state.repliesPlayed).toBe(0);
+    });
+
+    it('plays a legal reply in SAN or from-to form', () => {
+      const afterE4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+      expect(playOpponentReply(afterE4, 'e5')).toBe('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2');
+      expect(playOpponentReply(afterE4, 'e7e5')).toBe('rnbqkbnr/pppp1ppp/8/4p3/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2');
+    });
+
+    it('returns null for an illegal reply', () => {
+      const afterE4 = 'rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1';
+      expect(playOpponentReply(afterE4, 'e4')).toBeNull();
+    });
+  });
+
+  describe('composite validators', () => {
+    const rookMove = (from: string, to: string, isCapture = false) => ({ piece: 'r', from, to, isCapture });
+
+    it('all-of requires every child validator on the same move', () => {
+      const objective: LessonObjective = {
+        id: 'all-of',
+        description: 'Capture with the rook',
+        validator: {
+          type: 'all-of',
+          validators: [{ type: 'capture' }, { type: 'move-piece', pieceType: 'r' }],
+        },
+      };
+      let state = createInitialLessonState();
+      state = handleMove(state, { piece: 'n', from: 'b1', to: 'c3', isCapture: true });
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+      // The knight's capture and the rook's quiet move don't add up to a rook capture
+      state = handleMove(state, rookMove('a1', 'a2'));
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+      state = handleMove(state, rookMove('a2', 'a7', true));
+      expect(checkObjectiveComplete(objective, state)).toBe(true);
+    });
+
+    it('any-of accepts any child validator', () => {
+      const objective: LessonObjective = {
+        id: 'any-of',
+        description: 'Move a knight or a bishop',
+        validator: {
+          type: 'any-of',
+          validators: [
+            { type: 'move-piece', pieceType: 'n' },
+            { type: 'move-piece', pieceType: 'b' },
+          ],
+        },
+      };
+      let state = createInitialLessonState();
+      state = handleMove(state, rookMove('a1', 'a2'));
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+      state = handleMove(state, { piece: 'b', from: 'c1', to: 'e3', isCapture: false });
+      expect(checkObjectiveComplete(objective, state)).toBe(true);
+    });
+
+    describe('sequence', () => {
+      const objective: LessonObjective = {
+        id: 'sequence',
+        description: 'Move the rook horizontally, then vertically',
+        validator: {
+          type: 'sequence',
+          validators: [
+            { type: 'move-piece', pieceType: 'r', direction: 'horizontal' },
+            { type: 'move-piece', pieceType: 'r', direction: 'vertical' },
+          ],
+        },
+      };
+
+      it('is complete when the steps happen in order', () => {
+        let state = createInitialLessonState();
+        state = handleMove(state, rookMove('d4', 'h4'));
+        expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+        state = handleMove(state, rookMove('h4', 'h8'));
+        expect(checkObjectiveComplete(objective, state)).toBe(true);
+      });
+
+      it('is NOT complete when the steps happen in the wrong order', () => {
+        let state = createInitialLessonState();
+        state = handleMove(state, rookMove('d4', 'd8'));
+        state = handleMove(state, rookMove('d8', 'a8'));
+        expect(checkObjectiveComplete(objective, state)).toBe(false);
+      });
+
+      it('starts over after the objective state is reset', () => {
+        let state = createInitialLessonState();
+        state = handleMove(state, rookMove('d4', 'h4'));
+        state = resetObjectiveState(state);
+        state = handleMove(state, rookMove('h4', 'h8'));
+        expect(checkObjectiveComplete(objective, state)).toBe(false);
+      });
+    });
+
+    describe('n-times', () => {
+      it('requires the child validator to pass N separate times', () => {
+        const objective: LessonObjective = {
+          id: 'n-times',
+          description: 'Capture twice',
+          validator: { type: 'n-times', requiredCount: 2, validator: { type: 'capture' } },
+        };
+        let state = createInitialLessonState();
+        state = handleMove(state, rookMove('d4', 'd6', true));
+        expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+        state = handleMove(state, rookMove('d6', 'd5'));
+        expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+        state = handleMove(state, rookMove('d5', 'a5', true));
+        expect(checkObjectiveComplete(objective, state)).toBe(true);
+      });
+
+      it('can require a different piece type for each repetition', () => {
+        const objective: LessonObjective = {
+          id: 'n-times-distinct',
+          description: 'Capture twice, using two different piece types',
+          validator: {
+            type: 'n-times',
+            requiredCount: 2,
+            distinctPieces: true,
+            validator: { type: 'capture' },
+          },
+        };
+        let state = createInitialLessonState();
+        state = handleMove(state, rookMove('d4', 'd6', true));
+        state = handleMove(state, rookMove('d6', 'a6', true));
+        expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+        state = handleMove(state, { piece: 'n', from: 'b1', to: 'c3', isCapture: true });
+        expect(checkObjectiveComplete(objective, state)).toBe(true);
+      });
+    });
+  });
+
+  describe('game end', () => {
+    it('detects checkmate and the winner', () => {
+      expect(getGameOutcome('3R2k1/5ppp/8/8/8/8/8/6K1 b - - 1 1')).toEqual({ reason: 'checkmate', winner: 'w' });
+    });
+
+    it('detects stalemate', () => {
+      expect(getGameOutcome('7k/5Q2/6K1/8/8/8/8/8 b - - 0 1')).toEqual({ reason: 'stalemate', winner: null });
+    });
+
+    it('detects insufficient material', () => {
+      expect(getGameOutcome('8/8/8/4k3/8/8/8/4K3 w - - 0 1')?.reason).toBe('insufficient-material');
+    });
+
+    it('detects threefold repetition from the position history', () => {
+      const a = '4k3/8/8/8/8/8/8/R3K3 w - - 0 1';
+      const b = '4k3/8/8/8/8/8/8/R3K3 w - - 4 3';
+      const other = '4k3/8/8/8/8/8/8/R2K4 b - - 1 1';
+
+      expect(getGameOutcome(a, [a, other, a])).toBeNull();
+      expect(getGameOutcome(b, [a, other, a, other, b])?.reason).toBe('threefold-repetition');
+    });
+
+    it('detects the fifty-move rule', () => {
+      expect(getGameOutcome('4k3/8/8/8/8/8/8/R3K3 w - - 100 80')?.reason).toBe('fifty-move-rule');
+    });
+
+    it('ignores ongoing games and boards without kings', () => {
+      expect(getGameOutcome('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1')).toBeNull();
+      expect(getGameOutcome('8/8/8/8/3R4/8/8/8 w - - 0 1')).toBeNull();
+    });
+
+    it('completes win-game only when White delivers checkmate', () => {
+      const objective: LessonObjective = { id: 'win', description: 'Win!', validator: { type: 'win-game' } };
+      const state = createInitialLessonState();
+
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+      expect(checkObjectiveComplete(objective, handleGameEnd(state, { reason: 'checkmate', winner: 'b' }))).toBe(false);
+      expect(checkObjectiveComplete(objective, handleGameEnd(state, { reason: 'checkmate', winner: 'w' }))).toBe(true);
+    });
+
+    it('completes reach-stalemate on stalemate', () => {
+      const objective: LessonObjective = { id: 'stale', description: 'Stalemate!', validator: { type: 'reach-stalemate' } };
+      const state = createInitialLessonState();
+
+      expect(checkObjectiveComplete(objective, handleGameEnd(state, { reason: 'threefold-repetition', winner: null }))).toBe(false);
+      expect(checkObjectiveComplete(objective, handleGameEnd(state, { reason: 'stalemate', winner: null }))).toBe(true);
+    });
+
+    it('lets a quick win finish both Lesson 10 goals', () => {
+      const [, play, finish] = lessonConfigs[10].objectives;
+      const state = handleGameEnd(createInitialLessonState(), { reason: 'checkmate', winner: 'w' });
+
+      expect(checkObjectiveComplete(play, state)).toBe(true);
+      expect(checkObjectiveComplete(finish, resetObjectiveState(state))).toBe(true);
+    });
+
+    it('finishes Lesson 10 after a loss or a draw too', () => {
+      const [, play, finish] = lessonConfigs[10].objectives;
+      const state = createInitialLessonState();
+      expect(checkObjectiveComplete(finish, state)).toBe(false);
+
+      const lost = handleGameEnd(state, { reason: 'checkmate', winner: 'b' });
+      expect(checkObjectiveComplete(play, lost)).toBe(true);
+      expect(checkObjectiveComplete(finish, lost)).toBe(true);
+      expect(checkObjectiveComplete(finish, handleGameEnd(state, { reason: 'stalemate', winner: null }))).toBe(true);
+    });
+  });
+
+  describe('find-square validator', () => {
+    const objective: LessonObjective = {
+      id: 'find-e4',
+      description: 'Tap e4!',
+      validator: { type: 'find-square', requiredSquares: ['e4'] },
+    };
+
+    it('completes when the latest tap is the asked square', () => {
+      let state = handleSquareTap('d4', createInitialLessonState());
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+      state = handleSquareTap('e4', state);
+      expect(checkObjectiveComplete(objective, state)).toBe(true);
+    });
+
+    it('forgets the tap when the objective resets', () => {
+      const state = resetObjectiveState(handleSquareTap('e4', createInitialLessonState()));
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+    });
+  });
+
+  describe('quiz validator', () => {
+    const objective = lessonConfigs[9].objectives[3];
+    const quiz = objective.validator.quiz!;
+
+    it('completes once the right option is picked', () => {
+      expect(isQuizAnswerCorrect(quiz, 0)).toBe(false);
+      expect(checkObjectiveComplete(objective, createInitialLessonState())).toBe(false);
+      expect(checkObjectiveComplete(objective, handleAnswer(createInitialLessonState(), true))).toBe(true);
+    });
+
+    it('only the right picture of Lesson 9 is checkmate', () => {
+      quiz.options.forEach((option, index) => {
+        expect(new Chess(option.value).isCheckmate()).toBe(isQuizAnswerCorrect(quiz, index));
+        if (!isQuizAnswerCorrect(quiz, index)) {
+          expect(option.explanation).toBeTruthy();
+        }
+      });
+    });
+  });
+
+  describe('square-color validator', () => {
+    const objective: LessonObjective = {
+      id: 'colors',
+      description: 'Light or dark?',
+      validator: { type: 'square-color', requiredSquares: ['a1', 'f5'] },
+    };
+
+    it('asks each square until it is answered right', () => {
+      let state = createInitialLessonState();
+      expect(getNextColorQuizSquare(objective.validator, state)).toBe('a1');
+
+      state = handleColorAnswer(state, 'a1', 'light');
+      expect(getNextColorQuizSquare(objective.validator, state)).toBe('a1');
+
+      state = handleColorAnswer(state, 'a1', 'dark');
+      expect(getNextColorQuizSquare(objective.validator, state)).toBe('f5');
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+      state = handleColorAnswer(state, 'f5', 'light');
+      expect(getNextColorQuizSquare(objective.validator, state)).toBeNull();
+      expect(checkObjectiveComplete(objective, state)).toBe(true);
+    });
+  });
+
+  describe('Lesson 5: Bishop stays on its color', () => {
+    const stayOnColor = lessonConfigs[5].objectives[2];
+
+    it('needs 3 bishop moves on the dark squares', () => {
+      let state = createInitialLessonState();
+      let fen = lessonConfigs[5].fen!;
+      for (const san of ['Bg7', 'Bh6', 'Bc1']) {
+        expect(checkObjectiveComplete(stayOnColor, state)).toBe(false);
+        state = playMove(state, fen, san);
+        fen = state.lastMove!.fen!.replace(' b ', ' w ');
+      }
+      expect(checkObjectiveComplete(stayOnColor, state)).toBe(true);
+    });
+
+    it('fails if a bishop move lands on a light square', () => {
+      let state = createInitialLessonState();
+      state = handleMove(state, { piece: 'b', from: 'd4', to: 'e5', isCapture: false });
+      state = handleMove(state, { piece: 'b', from: 'e5', to: 'f6', isCapture: false });
+      // A light-squared bishop would never count for a dark-square objective
+      state = handleMove(state, { piece: 'b', from: 'c2', to: 'd3', isCapture: false });
+      expect(checkObjectiveComplete(stayOnColor, state)).toBe(false);
+    });
+  });
+
+  describe('setup-position validator', () => {
+    const target = '8/8/8/8/8/8/8/R3K2R w - - 0 1';
+    const objective: LessonObjective = {
+      id: 'setup',
+      description: 'Set up the rooks and king',
+      validator: { type: 'setup-position', targetFen: target },
+    };
+
+    it('completes once every piece is on its square', () => {
+      let state = createInitialLessonState();
+      state = handlePlacePiece(state, 'a1', 'R');
+      state = handlePlacePiece(state, 'e1', 'K');
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+      state = handlePlacePiece(state, 'h1', 'R');
+      expect(checkObjectiveComplete(objective, state)).toBe(true);
+    });
+
+    it('gives partial credit per piece type', () => {
+      let state = handlePlacePiece(createInitialLessonState(), 'e1', 'K');
+      state = handlePlacePiece(state, 'a1', 'R');
+
+      expect(scoreSetup(state.placedPieces, target)).toEqual([
+        { piece: 'K', correct: 1, total: 1 },
+        { piece: 'R', correct: 1, total: 2 },
+      ]);
+      expect(checkObjectiveComplete({
+        ...objective,
+        validator: { ...objective.validator, requiredCount: 1 },
+      }, state)).toBe(true);
+    });
+
+    it('fails while a piece is on the wrong square, and moving it fixes that', () => {
+      let state = handlePlacePiece(createInitialLessonState(), 'e1', 'K');
+      state = handlePlacePiece(state, 'a1', 'R');
+      state = handlePlacePiece(state, 'h2', 'R');
+
+      expect(getMisplacedSquares(state.placedPieces, target)).toEqual(['h2']);
+      expect(checkObjectiveComplete(objective, state)).toBe(false);
+
+      state = handlePlacePiece(state, 'h1', 'R', 'h2');
+      expect(getMisplacedSquares(state.placedPieces, target)).toEqual([]);
+      expect(checkObjectiveComplete(objective, state)).toBe(true);
+
+      expect(handleRemovePiece(state, 'h1').placedPieces).toEqual({ e1: 'K', a1: 'R' });
+    });
+
+    it('hints where a piece lives', () => {
+      expect(getSetupHint('K', SETUP_ARMY_FEN)).toBe('The king lives on e1.');
+      expect(getSetupHint('R', SETUP_ARMY_FEN)).toBe('Rooks live on a1 and h1.');
+      expect(getSetupHint('P', SETUP_ARMY_FEN)).toBe('Pawns line up on row 2.');
+    });
+
+    it('starts Lesson 10 with setting up the army', () => {
+      const [setup] = lessonConfigs[10].objectives;
+      const state = Object.entries(getPlacement(SETUP_ARMY_FEN)).reduce(
+        (acc, [square, piece]) => handlePlacePiece(acc, square, piece),
+        createInitialLessonState()
+      );
+
+      expect(Object.keys(state.placedPieces)).toHaveLength(16);
+      expect(checkObjectiveComplete(setup, state)).toBe(true);
+    });
+  });
+
+  describe('Lesson 11: Pawn Promotion', () => {
+    const [anyPiece, queen, knight] = lessonConfigs[11].objectives;
+    const promote = (promotion?: string) =>
+      handleMove(createInitialLessonState(), { piece: 'p', from: 'f7', to: 'f8', isCapture: false, promotion });
+
+    it('needs the pawn to actually promote', () => {
+      expect(checkObjectiveComplete(anyPiece, promote())).toBe(false);
+      expect(checkObjectiveComplete(anyPiece, promote('r'))).toBe(true);
+    });
+
+    it('can require a specific piece', () => {
+      expect(checkObjectiveComplete(queen, promote('n'))).toBe(false);
+      expect(checkObjectiveComplete(queen, promote('q'))).toBe(true);
+      expect(checkObjectiveComplete(knight, promote('q'))).toBe(false);
+      expect(checkObjectiveComplete(knight, promote('n'))).toBe(true);
+    });
+
+    it('sets up a knight promotion that forks king and queen', () => {
+      const game = new Chess(knight.fen);
+      const move = game.move('f8=N');
+
+      expect(move.san).toBe('f8=N+');
+      expect(game.isAttacked('d7', 'w')).toBe(true);
+    });
+  });
+
+  describe('Special moves', () => {
+    describe('Lesson 12: Castling', () => {
+      const [kingside, queenside, clearPath] = lessonConfigs[12].objectives;
+
+      it('checks which side the king castled to', () => {
+        const shortCastle = playMove(createInitialLessonState(), kingside.fen!, 'O-O');
+        const longCastle = playMove(createInitialLessonState(), queenside.fen!, 'O-O-O');
+
+        expect(checkObjectiveComplete(kingside, shortCastle)).toBe(true);
+        expect(checkObjectiveComplete(kingside, longCastle)).toBe(false);
+        expect(checkObjectiveComplete(queenside, longCastle)).toBe(true);
+      });
+
+      it('does not count a plain king move as castling', () => {
+        const state = playMove(createInitialLessonState(), kingside.fen!, 'Kf1');
+        expect(checkObjectiveComplete(kingside, state)).toBe(false);
+      });
+
+      it('needs the bishop out of the way before castling', () => {
+        let state = playMove(createInitialLessonState(), clearPath.fen!, 'Bd3');
+        expect(checkObjectiveComplete(clearPath, state)).toBe(false);
+
+        // ChessBoard hands the turn back to White on piece-movement boards
+        const whiteToMove = state.lastMove!.fen!.replace(' b ', ' w ');
+        state = playMove(state, whiteToMove, 'O-O');
+        expect(checkObjectiveComplete(clearPath, state)).toBe(true);
+      });
+
+      it('treats moving the king before castling as a mistake to undo', () => {
+        // Moving the king would lose the castling right and leave the step impossible
+        const before = createInitialLessonState();
+        const kingFirst = playMove(before, clearPath.fen!, 'Kd1');
+        expect(isWrongMove(clearPath.validator, kingFirst)).toBe(true);
+
+        // Once undone, the sequence can still be finished from the start position
+        let state = playMove(undoMove(kingFirst, before), clearPath.fen!, 'Bd3');
+        expect(isWrongMove(clearPath.validator, state)).toBe(false);
+
+        const rookMove = playMove(state, state.lastMove!.fen!.replace(' b ', ' w '), 'Rg1');
+        expect(isWrongMove(clearPath.validator, rookMove)).toBe(true);
+
+        state = playMove(state, state.lastMove!.fen!.replace(' b ', ' w '), 'O-O');
+        expect(checkObjectiveComplete(clearPath, state)).toBe(true);
+      });
+
+      it('demos castling on the objective board', () => {
+        const positions = getDemoPositions(kingside);
+        expect(positions).toHaveLength(2);
+        expect(positions[0]).toBe(kingside.fen);
+        expect(positions[1]).toContain('R4RK1');
+      });
+    });
+
+    describe('Lesson 13: En Passant', () => {
+      const objectives = lessonConfigs[13].objectives;
+
+      it('sets up an en passant capture for every objective', () => {
+        objectives.forEach((objective) => {
+          const capture = new Chess(objective.fen).moves({ verbose: true }).find((m) => m.flags.includes('e'));
+          expect(capture).toBeDefined();
+
+          const state = playMove(createInitialLessonState(), objective.fen!, capture!.san);
+          expect(checkObjectiveComplete(objective, state)).toBe(true);
+        });
+      });
+
+      it('does not count a normal pawn push', () => {
+        const state = playMove(createInitialLessonState(), objectives[0].fen!, 'e6');
+        expect(checkObjectiveComplete(objectives[0], state)).toBe(false);
+      });
+
+      it('demos the double step and the capture in passing', () => {
+        const positions = getDemoPositions(objectives[0]);
+        expect(positions).toHaveLength(3);
+        expect(positions[1].split(' ')[3]).toBe('d6');
+        expect(positions[2]).toContain('3P4');
+      });
+
+      it('ends the en passant demo on the objective position', () => {
+        const positions = getDemoPositions(objectives[1]);
+        expect(positions[positions.length - 1].split(' ').slice(0, 4))
+          .toEqual(objectives[1].fen!.split(' ').slice(0, 4));
+      });
+    });
+  });
+
+  describe('Lesson 7: Check', () => {
+    const [stepOut, block, capture, giveCheck] = lessonConfigs[7].objectives;
+    const fresh = createInitialLessonState;
+
+    it('accepts only the requested way out of check', () => {
+      expect(checkObjectiveComplete(stepOut, playMove(fresh(), stepOut.fen!, 'Kd1'))).toBe(true);
+
+      expect(checkObjectiveComplete(block, playMove(fresh(), block.fen!, 'Kf2'))).toBe(false);
+      expect(checkObjectiveComplete(block, playMove(fresh(), block.fen!, 'Re4'))).toBe(true);
+
+      expect(checkObjectiveComplete(capture, playMove(fresh(), capture.fen!, 'Nxe2'))).toBe(true);
+    });
+
+    it('counts the king taking the checking piece as a capture', () => {
+      const objective: LessonObjective = {
+        id: 'king-takes',
+        description: 'Take the rook',
+        validator: { type: 'escape-check', escapeMode: 'move' },
+      };
+      const fen = '7k/8/8/8/8/8/4r3/4K3 w - - 0 1';
+
+      expect(checkObjectiveComplete(objective, playMove(fresh(), fen, 'Kxe2'))).toBe(false);
+      expect(checkObjectiveComplete({ ...objective, validator: { type: 'escape-check', escapeMode: 'capture' } },
+        playMove(fresh(), fen, 'Kxe2'))).toBe(true);
+    });
+
+    it('needs the king to be in check before the move', () => {
+      const state = playMove(fresh(), giveCheck.fen!, 'Kf1');
+      expect(checkObjectiveComplete(stepOut, state)).toBe(false);
+    });
+
+    it('checks that the king is safe after the move', () => {
+      // A forced-turn board can hand over a position where the king is still attacked
+      const state = handleMove(fresh(), {
+        piece: 'k', from: 'e1', to: 'e2', isCapture: false,
+        fenBefore: stepOut.fen, fen: '4r2k/8/8/8/8/8/4K3/8 w - - 0 1',
+      });
+      expect(checkObjectiveComplete(stepOut, state)).toBe(false);
+    });
+
+    it('detects giving check', () => {
+      expect(checkObjectiveComplete(giveCheck, playMove(fresh(), giveCheck.fen!, 'Qa4+'))).toBe(true);
+      expect(checkObjectiveComplete(giveCheck, playMove(fresh(), giveCheck.fen!, 'Qc2'))).toBe(false);
+    });
+
+    it('highlights the attacking line up to the king', () => {
+      expect(getCheckLine(block.fen!).sort()).toEqual(['e2', 'e3', 'e4', 'e5', 'e6', 'e7', 'e8']);
+      expect(getCheckLine('4k3/8/8/8/8/3n4/8/4K3 w - - 0 1')).toEqual(['d3']);
+      expect(getCheckLine(giveCheck.fen!)).toEqual([]);
+    });
+  });
 });
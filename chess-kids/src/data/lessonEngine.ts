@@ -1,3 +1,5 @@
+import { Chess, DEFAULT_POSITION, type Color, type Square } from 'chess.js';
+
 export type LessonType =
   | 'explore-board'
   | 'piece-movement'
@@ -9,15 +11,87 @@ export interface LessonObjective {
   id: string;
   description: string;
   validator: ObjectiveValidator;
+  fen?: string;              // Board setup for this objective (otherwise the board carries over)
+  opponentReplies?: string[]; // Scripted Black replies, one after each correct student move
+  demo?: ObjectiveDemo;       // Moves shown on the board before the student tries
+}
+
+export interface ObjectiveDemo {
+  fen?: string;    // Where the demo starts (defaults to the objective's fen)
+  moves: string[]; // SAN or from-to, played in turn; afterwards the board resets to the objective's fen
 }
 
+export type MoveDirection = 'horizontal' | 'vertical' | 'diagonal' | 'l-jump' | 'irregular';
+export type SquareColor = 'light' | 'dark';
+
 export interface ObjectiveValidator {
-  type: 'tap-squares' | 'tap-corners' | 'count-confirm' | 'move-piece' | 'capture' | 'any-moves';
+  type:
+    | 'tap-squares'
+    | 'tap-corners'
+    | 'find-square'
+    | 'count-confirm'
+    | 'quiz'
+    | 'square-color'
+    | 'stay-on-color'
+    | 'move-piece'
+    | 'capture'
+    | 'any-moves'
+    | 'deliver-checkmate'
+    | 'promote'
+    | 'castle'
+    | 'en-passant'
+    | 'escape-check'
+    | 'give-check'
+    | 'safe-after-move'
+    | 'setup-position'
+    | 'win-game'
+    | 'finish-game'
+    | 'reach-stalemate'
+    | 'all-of'
+    | 'any-of'
+    | 'sequence'
+    | 'n-times';
   requiredSquares?: string[];
   requiredCount?: number;
   pieceType?: string;
+  capturedPiece?: string; // 'capture': the type of piece that must be taken
   requiredDistance?: number;
+  requiredMove?: string; // Exact move in from-to form, e.g. "d1d8"
+  promotionPiece?: string; // 'promote': the piece the pawn must become (q, r, b, n)
+  castleSide?: 'kingside' | 'queenside'; // 'castle': which way (either if omitted)
+  escapeMode?: 'move' | 'block' | 'capture'; // 'escape-check': how the check must be answered (any if omitted)
+  direction?: MoveDirection | 'orthogonal'; // 'orthogonal' accepts horizontal or vertical
   correctAnswer?: number;
+  quiz?: QuizQuestion; // 'quiz': the question and its answer options
+  squareColor?: SquareColor; // 'stay-on-color': the color the piece must stay on (defaults to where it started)
+  targetFen?: string; // 'setup-position': the placement to build (only the piece placement field is compared)
+  validators?: ObjectiveValidator[]; // Children of 'all-of', 'any-of' and 'sequence'
+  validator?: ObjectiveValidator;    // Child of 'n-times' (repeated requiredCount times)
+  distinctPieces?: boolean;          // 'n-times' / 'capture': each one must use a different piece type
+}
+
+export type GameEndReason =
+  | 'checkmate'
+  | 'stalemate'
+  | 'threefold-repetition'
+  | 'insufficient-material'
+  | 'fifty-move-rule';
+
+export interface GameOutcome {
+  reason: GameEndReason;
+  winner: 'w' | 'b' | null; // null for draws
+}
+
+export interface QuizOption {
+  kind: 'number' | 'piece' | 'square' | 'board';
+  value: string;        // The number, FEN piece letter, square name or FEN to picture
+  explanation?: string; // Shown when this option is picked by mistake
+}
+
+export interface QuizQuestion {
+  question: string;
+  options: QuizOption[];
+  correctOption: number; // Index into options
 }
 
 export interface LessonConfig {
@@ -29,6 +103,8 @@ export interface LessonConfig {
 }
 
 export const CORNER_SQUARES = ['a1', 'a8', 'h1', 'h8'];
+// White's pieces on their starting squares, built piece by piece in the free play lesson
+export const SETUP_ARMY_FEN = '8/8/8/8/8/8/PPPPPPPP/RNBQKBNR w - - 0 1';
 export const ALL_SQUARES = Array.from({ length: 8 }, (_, r) =>
   Array.from({ length: 8 }, (_, c) =>
     `${String.fromCharCode(97 + c)}${r + 1}`
@@ -57,6 +133,11 @@ export const lessonConfigs: Record<number, LessonConfig> = {
         description: 'Count how many squares are in the bottom row',
         validator: { type: 'count-confirm', correctAnswer: 8 },
       },
+      {
+        id: 'square-colors',
+        description: 'Light or dark? Tell the color of each glowing square',
+        validator: { type: 'square-color', requiredSquares: ['a1', 'h1', 'f5', 'd4'] },
+      },
     ],
   },
   2: {
@@ -68,11 +149,13 @@ export const lessonConfigs: Record<number, LessonConfig> = {
         id: 'move-pawn-1',
         description: 'Move a pawn forward 1 square',
         validator: { type: 'move-piece', pieceType: 'p', requiredDistance: 1 },
+        opponentReplies: ['e5'],
       },
       {
         id: 'move-pawn-2',
         description: 'Try a "Big Step"! Move a pawn forward 2 squares',
         validator: { type: 'move-piece', pieceType: 'p', requiredDistance: 2 },
+        opponentReplies: ['d5'],
       },
       {
         id: 'move-pawn-3',
@@ -89,17 +172,17 @@ export const lessonConfigs: Record<number, LessonConfig> = {
       {
         id: 'knight-1',
         description: 'Move the knight in an L-shape',
-        validator: { type: 'move-piece', pieceType: 'n' },
+        validator: { type: 'move-piece', pieceType: 'n', direction: 'l-jump' },
       },
       {
         id: 'knight-2',
         description: 'Jump again! Knights love to hop',
-        validator: { type: 'move-piece', pieceType: 'n' },
+        validator: { type: 'move-piece', pieceType: 'n', direction: 'l-jump' },
       },
       {
         id: 'knight-3',
         description: 'One more jump!',
-        validator: { type: 'move-piece', pieceType: 'n' },
+        validator: { type: 'move-piece', pieceType: 'n', direction: 'l-jump' },
       },
     ],
   },
@@ -110,18 +193,18 @@ export const lessonConfigs: Record<number, LessonConfig> = {
     objectives: [
       {
         id: 'rook-1',
-        description: 'Move the rook in a straight line',
-        validator: { type: 'move-piece', pieceType: 'r' },
+        description: 'Move the rook sideways in a straight line',
+        validator: { type: 'move-piece', pieceType: 'r', direction: 'horizontal' },
       },
       {
         id: 'rook-2',
-        description: 'Now move it the other direction',
-        validator: { type: 'move-piece', pieceType: 'r' },
+        description: 'Now move it the other direction - up or down!',
+        validator: { type: 'move-piece', pieceType: 'r', direction: 'vertical' },
       },
       {
         id: 'rook-3',
         description: 'Great! Move it across the board',
-        validator: { type: 'move-piece', pieceType: 'r' },
+        validator: { type: 'move-piece', pieceType: 'r', direction: 'orthogonal' },
       },
     ],
   },
@@ -133,17 +216,17 @@ export const lessonConfigs: Record<number, LessonConfig> = {
       {
         id: 'bishop-1',
         description: 'Move the bishop diagonally',
-        validator: { type: 'move-piece', pieceType: 'b' },
+        validator: { type: 'move-piece', pieceType: 'b', direction: 'diagonal' },
       },
       {
         id: 'bishop-2',
         description: 'Slide diagonally again',
-        validator: { type: 'move-piece', pieceType: 'b' },
+        validator: { type: 'move-piece', pieceType: 'b', direction: 'diagonal' },
       },
       {
         id: 'bishop-3',
-        description: 'Notice it stays on the same color!',
-        validator: { type: 'move-piece', pieceType: 'b' },
+        description: 'Make 3 more moves. Notice it stays on the dark squares!',
+        validator: { type: 'stay-on-color', pieceType: 'b', squareColor: 'dark', requiredCount: 3 },
       },
     ],
   },
@@ -160,7 +243,7 @@ export const lessonConfigs: Record<number, LessonConfig> = {
       {
         id: 'queen-2',
         description: 'Try a diagonal move',
-        validator: { type: 'move-piece', pieceType: 'q' },
+        validator: { type: 'move-piece', pieceType: 'q', direction: 'diagonal' },
       },
       {
         id: 'queen-3',
@@ -172,51 +255,107 @@ export const lessonConfigs: Record<number, LessonConfig> = {
   7: {
     id: 7,
     type: 'piece-movement',
-    fen: '8/8/8/8/3K4/8/8/8 w - - 0 1',
+    fen: null,
     objectives: [
       {
-        id: 'king-1',
-        description: 'Move the king one square',
-        validator: { type: 'move-piece', pieceType: 'k' },
+        id: 'check-1',
+        description: 'Check! The rook attacks your king. Step out of danger!',
+        fen: '4r2k/8/8/8/8/8/8/4K3 w - - 0 1',
+        validator: { type: 'escape-check', escapeMode: 'move' },
+      },
+      {
+        id: 'check-2',
+        description: 'Check again! Block the attack with your rook',
+        fen: '4r2k/8/8/8/R7/8/8/4K3 w - - 0 1',
+        validator: { type: 'escape-check', escapeMode: 'block' },
       },
       {
-        id: 'king-2',
-        description: 'The king moves slowly - one step only',
-        validator: { type: 'move-piece', pieceType: 'k' },
+        id: 'check-3',
+        description: 'The queen gives check! Capture her with your knight',
+        fen: '4r2k/8/8/8/8/2N5/4q3/4K3 w - - 0 1',
+        validator: { type: 'escape-check', escapeMode: 'capture' },
       },
       {
-        id: 'king-3',
-        description: 'Keep the king safe! Move again',
-        validator: { type: 'move-piece', pieceType: 'k' },
+        id: 'check-4',
+        description: 'Your turn! Give check to the black king',
+        fen: '4k3/8/8/8/8/8/8/3QK3 w - - 0 1',
+        validator: { type: 'give-check' },
       },
     ],
   },
   8: {
     id: 8,
     type: 'capture',
-    fen: '8/8/3p4/8/3R4/8/8/8 w - - 0 1',
+    fen: '8/2p2p2/8/8/p4p2/8/2p5/R7 w - - 0 1',
     objectives: [
       {
         id: 'capture-1',
-        description: 'Capture the black pawn with your rook!',
-        validator: { type: 'capture' },
+        description: 'Capture all 5 pawns with your rook!',
+        validator: { type: 'capture', capturedPiece: 'p', requiredCount: 5 },
       },
       {
         id: 'capture-2',
-        description: 'Great! Make 2 more moves',
-        validator: { type: 'any-moves', requiredCount: 2 },
+        description: 'Capture with 3 different pieces: rook, knight and bishop!',
+        fen: '8/8/8/p5n1/8/2b5/8/RNB5 w - - 0 1',
+        validator: { type: 'capture', distinctPieces: true, requiredCount: 3 },
+      },
+      {
+        id: 'capture-3',
+        description: 'Capture a piece without getting captured back. Careful, one is protected!',
+        fen: '8/8/3p4/4n3/1b6/8/8/4Q3 w - - 0 1',
+        validator: {
+          type: 'all-of',
+          validators: [{ type: 'capture' }, { type: 'safe-after-move' }],
+        },
       },
     ],
   },
   9: {
     id: 9,
     type: 'checkmate',
-    fen: '6k1/5ppp/8/8/8/8/8/4R1K1 w - - 0 1',
+    fen: null,
     objectives: [
       {
         id: 'checkmate-1',
+        description: 'Find checkmate in 1 move! The knight can help',
+        fen: 'r5rk/6pp/8/6N1/8/8/8/6K1 w - - 0 1',
+        validator: { type: 'deliver-checkmate' },
+      },
+      {
+        id: 'checkmate-2',
+        description: 'Use the Queen to checkmate!',
+        fen: '6k1/8/6K1/8/8/8/8/3Q4 w - - 0 1',
+        validator: { type: 'deliver-checkmate', pieceType: 'q' },
+      },
+      {
+        id: 'checkmate-3',
         description: 'Move the rook to checkmate the king!',
-        validator: { type: 'move-piece', pieceType: 'r' },
+        fen: '6k1/5ppp/8/8/8/8/8/4R1K1 w - - 0 1',
+        validator: { type: 'deliver-checkmate', pieceType: 'r' },
+      },
+      {
+        id: 'checkmate-quiz',
+        description: 'Which picture shows checkmate?',
+        validator: {
+          type: 'quiz',
+          quiz: {
+            question: 'Which picture shows checkmate?',
+            options: [
+              {
+                kind: 'board',
+                value: '6k1/5ppp/8/8/8/8/8/4R1K1 b - - 0 1',
+                explanation: 'The king is not even in check here. Nothing attacks it yet!',
+              },
+              {
+                kind: 'board',
+                value: '4R1k1/5p1p/8/8/8/8/8/6K1 b - - 0 1',
+                explanation: 'The king is in check, but it can escape to g7.',
+              },
+              { kind: 'board', value: '4R1k1/5ppp/8/8/8/8/8/6K1 b - - 0 1' },
+            ],
+            correctOption: 2,
+          },
+        },
       },
     ],
   },
@@ -225,28 +364,154 @@ export const lessonConfigs: Record<number, LessonConfig> = {
     type: 'free-play',
     fen: null,
     objectives: [
+      {
+        id: 'setup-1',
+        description: 'Set up your army! Put every white piece on its starting square',
+        validator: { type: 'setup-position', targetFen: SETUP_ARMY_FEN },
+      },
       {
         id: 'play-1',
-        description: 'Play some moves!',
-        validator: { type: 'any-moves', requiredCount: 5 },
+        description: 'Play some moves against the computer!',
+        fen: DEFAULT_POSITION,
+        // A very quick game also counts, otherwise it would end with this goal open
+        validator: {
+          type: 'any-of',
+          validators: [
+            { type: 'any-moves', requiredCount: 5 },
+            { type: 'finish-game' },
+          ],
+        },
+      },
+      {
+        id: 'play-2',
+        // Any result finishes the lesson, so a child who keeps losing isn't stuck
+        description: 'Play a whole game against the robot, win or lose!',
+        validator: { type: 'finish-game' },
+      },
+    ],
+  },
+  11: {
+    id: 11,
+    type: 'piece-movement',
+    fen: null,
+    objectives: [
+      {
+        id: 'promote-1',
+        description: 'Push the pawn to the last row and pick a new piece!',
+        fen: '8/4P3/8/8/8/8/8/8 w - - 0 1',
+        validator: { type: 'promote' },
+      },
+      {
+        id: 'promote-2',
+        description: 'Turn your pawn into a Queen, the strongest piece!',
+        fen: '2r5/1P6/8/8/8/8/8/8 w - - 0 1',
+        validator: { type: 'promote', promotionPiece: 'q' },
+      },
+      {
+        id: 'promote-3',
+        description: 'Surprise! Make a Knight to attack the king AND the queen!',
+        fen: '8/3q1P1k/8/8/8/8/8/4K3 w - - 0 1',
+        validator: { type: 'promote', promotionPiece: 'n' },
+      },
+    ],
+  },
+  12: {
+    id: 12,
+    type: 'piece-movement',
+    fen: null,
+    objectives: [
+      {
+        id: 'castle-1',
+        description: 'Watch the king and rook swap sides, then castle the short way!',
+        fen: 'r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1',
+        demo: { moves: ['O-O'] },
+        validator: { type: 'castle', castleSide: 'kingside' },
+      },
+      {
+        id: 'castle-2',
+        description: 'Now castle the long way, on the Queen\'s side!',
+        fen: 'r3k2r/pppppppp/8/8/8/8/PPPPPPPP/R3K2R w KQkq - 0 1',
+        demo: { moves: ['O-O-O'] },
+        validator: { type: 'castle', castleSide: 'queenside' },
+      },
+      {
+        id: 'castle-3',
+        description: 'The bishop is in the way! Move it, then castle.',
+        fen: '4k3/8/8/8/8/8/5PPP/4KB1R w K - 0 1',
+        validator: {
+          type: 'sequence',
+          validators: [
+            { type: 'move-piece', pieceType: 'b' },
+            { type: 'castle', castleSide: 'kingside' },
+          ],
+        },
+      },
+    ],
+  },
+  13: {
+    id: 13,
+    type: 'piece-movement',
+    fen: null,
+    objectives: [
+      {
+        id: 'en-passant-1',
+        description: 'Watch the black pawn jump past... then catch it in passing!',
+        fen: '4k3/8/8/3pP3/8/8/8/4K3 w - d6 0 1',
+        demo: { fen: '4k3/3p4/8/4P3/8/8/8/4K3 b - - 0 1', moves: ['d5', 'exd6'] },
+        validator: { type: 'en-passant' },
+      },
+      {
+        id: 'en-passant-2',
+        description: 'Another pawn jumped past yours. Catch it!',
+        fen: '4k3/8/8/4Pp2/8/8/8/4K3 w - f6 0 1',
+        demo: { fen: '4k3/5p2/8/4P3/8/8/8/4K3 b - - 0 1', moves: ['f5'] },
+        validator: { type: 'en-passant' },
+      },
+      {
+        id: 'en-passant-3',
+        description: 'One more! Which pawn can you catch in passing?',
+        fen: '4k3/8/8/pP6/8/8/8/4K3 w - a6 0 1',
+        validator: { type: 'en-passant' },
       },
     ],
   },
 };
 
+export interface MoveDescriptor {
+  piece: string;
+  from: string;
+  to: string;
+  fileDelta: number; // Signed: positive = towards the h-file
+  rankDelta: number; // Signed: positive = towards rank 8
+  distance: number;  // Ranks travelled (pawn steps)
+  direction: MoveDirection;
+  fromColor: SquareColor;
+  toColor: SquareColor;
+  isCapture: boolean;
+  promotion?: string; // Piece a pawn was promoted to
+  captured?: string;  // Type of the piece taken, when known
+  flags?: string;     // chess.js move flags: k/q castling, e en passant, ...
+  fenBefore?: string; // Position before the move
+  fen?: string; // Position after the move
+}
+
 export interface LessonState {
   tappedSquares: Set<string>;
   tappedCorners: Set<string>;
+  lastTappedSquare?: string;
   moveCount: number;
   captureCount: number;
-  lastMove?: {
-    piece: string;
-    distance: number;
-    isCapture: boolean;
-  };
+  capturesByPiece: Record<string, number>; // Captures per capturing piece type (lowercase)
+  capturedPieces: Record<string, number>;  // Captures per captured piece type (lowercase)
+  placedPieces: Record<string, string>;    // 'setup-position': square -> FEN piece letter the student put there
+  lastMove?: MoveDescriptor;
+  moveHistory: MoveDescriptor[]; // Moves made during the current objective
+  repliesPlayed: number;         // Scripted opponent replies played during the current objective
+  gameOutcome?: GameOutcome;     // Set once the game on the board has ended (belongs to the board, not the objective)
   currentObjectiveIndex: number;
   completedObjectives: string[];
   answeredCorrectly: boolean;
+  colorAnswers: Record<string, SquareColor>; // 'square-color': the latest answer per asked square
 }
 
 export function createInitialLessonState(): LessonState {
@@ -255,9 +520,15 @@ export function createInitialLessonState(): LessonState {
     tappedCorners: new Set(),
     moveCount: 0,
     captureCount: 0,
+    capturesByPiece: {},
+    capturedPieces: {},
+    placedPieces: {},
+    moveHistory: [],
+    repliesPlayed: 0,
     currentObjectiveIndex: 0,
     completedObjectives: [],
     answeredCorrectly: false,
+    colorAnswers: {},
   };
 }
 
@@ -265,8 +536,10 @@ export function checkObjectiveComplete(
   objective: LessonObjective,
   state: LessonState
 ): boolean {
-  const { validator } = objective;
+  return checkValidator(objective.validator, state);
+}
 
+function checkValidator(validator: ObjectiveValidator, state: LessonState): boolean {
   switch (validator.type) {
     case 'tap-squares':
       return state.tappedSquares.size >= (validator.requiredCount || 5);
@@ -276,27 +549,403 @@ export function checkObjectiveComplete(
         state.tappedCorners.has(sq)
       );
 
+    case 'find-square':
+      // The latest tap has to be right; earlier wrong taps don't count against it
+      return !!state.lastTappedSquare && (validator.requiredSquares || []).includes(state.lastTappedSquare);
+
     case 'count-confirm':
+    case 'quiz':
       return state.answeredCorrectly;
 
+    case 'square-color':
+      return getNextColorQuizSquare(validator, state) === null;
+
+    case 'stay-on-color': {
+      const moves = state.moveHistory.filter((move) =>
+        !validator.pieceType || move.piece.toLowerCase() === validator.pieceType.toLowerCase()
+      );
+      if (moves.length < (validator.requiredCount || 1)) return false;
+      const color = validator.squareColor || moves[0].fromColor;
+      return moves.every((move) => move.fromColor === color && move.toColor === color);
+    }
+
     case 'move-piece': {
       if (!state.lastMove) return false;
       const pieceMatch = !validator.pieceType || state.lastMove.piece.toLowerCase() === validator.pieceType.toLowerCase();
       const distanceMatch = !validator.requiredDistance || state.lastMove.distance === validator.requiredDistance;
-      return pieceMatch && distanceMatch;
+      const directionMatch = !validator.direction || matchesDirection(state.lastMove.direction, validator.direction);
+      const exactMatch = !validator.requiredMove
+        || `${state.lastMove.from}${state.lastMove.to}` === validator.requiredMove.slice(0, 4);
+      return pieceMatch && distanceMatch && directionMatch && exactMatch;
     }
 
-    case 'capture':
-      return state.captureCount >= 1;
+    case 'capture': {
+      const required = validator.requiredCount || 1;
+      if (validator.distinctPieces) return Object.keys(state.capturesByPiece).length >= required;
+      if (validator.pieceType) return (state.capturesByPiece[validator.pieceType.toLowerCase()] || 0) >= required;
+      if (validator.capturedPiece) return (state.capturedPieces[validator.capturedPiece.toLowerCase()] || 0) >= required;
+      return state.captureCount >= required;
+    }
+
+    case 'safe-after-move':
+      return !!state.lastMove?.fen && isSquareSafe(state.lastMove.fen, state.lastMove.to);
+
+    case 'setup-position': {
+      if (!validator.targetFen) return false;
+      if (getMisplacedSquares(state.placedPieces, validator.targetFen).length > 0) return false;
+      const scores = scoreSetup(state.placedPieces, validator.targetFen);
+      const finishedTypes = scores.filter((score) => score.correct === score.total).length;
+      return finishedTypes >= (validator.requiredCount || scores.length);
+    }
 
     case 'any-moves':
       return state.moveCount >= (validator.requiredCount || 1);
 
+    case 'deliver-checkmate': {
+      if (!state.lastMove?.fen) return false;
+      const pieceMatch = !validator.pieceType || state.lastMove.piece.toLowerCase() === validator.pieceType.toLowerCase();
+      return pieceMatch && isCheckmatePosition(state.lastMove.fen);
+    }
+
+    case 'promote':
+      if (!state.lastMove?.promotion) return false;
+      return !validator.promotionPiece || state.lastMove.promotion === validator.promotionPiece;
+
+    case 'castle': {
+      const flags = state.lastMove?.flags || '';
+      if (validator.castleSide === 'kingside') return flags.includes('k');
+      if (validator.castleSide === 'queenside') return flags.includes('q');
+      return flags.includes('k') || flags.includes('q');
+    }
+
+    case 'en-passant':
+      return !!state.lastMove?.flags?.includes('e');
+
+    case 'escape-check': {
+      const move = state.lastMove;
+      if (!move?.fenBefore || !move.fen) return false;
+
+      const checkers = getCheckingSquares(move.fenBefore);
+      if (checkers.length === 0 || !isKingSafe(move.fen)) return false;
+
+      // Taking the checking piece counts as a capture, even when the king does it
+      const capturedChecker = checkers.includes(move.to);
+      const kingMoved = move.piece.toLowerCase() === 'k';
+      switch (validator.escapeMode) {
+        case 'move': return kingMoved && !capturedChecker;
+        case 'capture': return capturedChecker;
+        case 'block': return !kingMoved && !capturedChecker;
+        default: return true;
+      }
+    }
+
+    case 'give-check':
+      return !!state.lastMove?.fen && !isKingSafe(state.lastMove.fen, 'b');
+
+    case 'win-game':
+      return state.gameOutcome?.reason === 'checkmate' && state.gameOutcome.winner === 'w';
+
+    case 'finish-game':
+      return !!state.gameOutcome;
+
+    case 'reach-stalemate':
+      return state.gameOutcome?.reason === 'stalemate';
+
+    case 'all-of': {
+      // Every child must be met by the same move, not one child per move
+      const moveState = state.lastMove ? handleMove(resetObjectiveState(state), state.lastMove) : state;
+      return (validator.validators || []).every((child) => checkValidator(child, moveState));
+    }
+
+    case 'any-of':
+      return (validator.validators || []).some((child) => checkValidator(child, state));
+
+    case 'sequence':
+      return countSequenceSteps(validator.validators || [], state) >= (validator.validators || []).length;
+
+    case 'n-times':
+      if (!validator.validator) return false;
+      return countRepetitions(validator.validator, state, validator.distinctPieces) >= (validator.requiredCount || 1);
+
     default:
       return false;
   }
 }
 
+// Sequences and repetitions replay the objective's move history one move at a
+// time, starting a fresh step state whenever a child validator is satisfied.
+function countSequenceSteps(steps: ObjectiveValidator[], state: LessonState): number {
+  let stepIndex = 0;
+  let stepState = resetObjectiveState(state);
+
+  for (const move of state.moveHistory) {
+    if (stepIndex >= steps.length) break;
+    stepState = handleMove(stepState, move);
+    if (checkValidator(steps[stepIndex], stepState)) {
+      stepIndex++;
+      stepState = resetObjectiveState(stepState);
+    }
+  }
+
+  return stepIndex;
+}
+
+function countRepetitions(
+  validator: ObjectiveValidator,
+  state: LessonState,
+  distinctPieces = false
+): number {
+  const usedPieces = new Set<string>();
+  let count = 0;
+  let stepState = resetObjectiveState(state);
+
+  for (const move of state.moveHistory) {
+    stepState = handleMove(stepState, move);
+    if (checkValidator(validator, stepState)) {
+      const piece = move.piece.toLowerCase();
+      if (!distinctPieces || !usedPieces.has(piece)) {
+        usedPieces.add(piece);
+        count++;
+      }
+      stepState = resetObjectiveState(stepState);
+    }
+  }
+
+  return count;
+}
+
+function matchesDirection(actual: MoveDirection, expected: MoveDirection | 'orthogonal'): boolean {
+  if (expected === 'orthogonal') {
+    return actual === 'horizontal' || actual === 'vertical';
+  }
+  return actual === expected;
+}
+
+export function getSquareColor(square: string): SquareColor {
+  const fileIndex = square.charCodeAt(0) - 97;
+  const rank = parseInt(square[1]);
+  // 0-based file + 1-based rank is odd on dark squares (a1: 0 + 1) and even on light ones
+  return (fileIndex + rank) % 2 === 0 ? 'light' : 'dark';
+}
+
+function getDirection(fileDelta: number, rankDelta: number): MoveDirection {
+  const absFile = Math.abs(fileDelta);
+  const absRank = Math.abs(rankDelta);
+
+  if (absRank === 0 && absFile > 0) return 'horizontal';
+  if (absFile === 0 && absRank > 0) return 'vertical';
+  if (absFile === absRank && absFile > 0) return 'diagonal';
+  if ((absFile === 1 && absRank === 2) || (absFile === 2 && absRank === 1)) return 'l-jump';
+  return 'irregular';
+}
+
+export interface MoveInfo {
+  piece: string;
+  from: string;
+  to: string;
+  isCapture: boolean;
+  promotion?: string;
+  captured?: string;
+  flags?: string;
+  fenBefore?: string;
+  fen?: string;
+}
+
+export function describeMove(moveInfo: MoveInfo): MoveDescriptor {
+  const fileDelta = moveInfo.to.charCodeAt(0) - moveInfo.from.charCodeAt(0);
+  const rankDelta = parseInt(moveInfo.to[1]) - parseInt(moveInfo.from[1]);
+
+  return {
+    piece: moveInfo.piece,
+    from: moveInfo.from,
+    to: moveInfo.to,
+    fileDelta,
+    rankDelta,
+    distance: Math.abs(rankDelta),
+    direction: getDirection(fileDelta, rankDelta),
+    fromColor: getSquareColor(moveInfo.from),
+    toColor: getSquareColor(moveInfo.to),
+    isCapture: moveInfo.isCapture,
+    promotion: moveInfo.promotion,
+    captured: moveInfo.captured,
+    flags: moveInfo.flags,
+    fenBefore: moveInfo.fenBefore,
+    fen: moveInfo.fen,
+  };
+}
+
+export function isCheckmatePosition(fen: string): boolean {
+  try {
+    return new Chess(fen).isCheckmate();
+  } catch {
+    // Lesson boards without both kings can never be checkmate
+    return false;
+  }
+}
+
+function findKing(game: Chess, color: Color): Square | undefined {
+  return game.findPiece({ type: 'k', color })[0];
+}
+
+/**
+ * Squares of the pieces giving check to `color`'s king. Works on lesson boards
+ * whatever the side to move, since ChessBoard may hand the turn back to White.
+ */
+export function getCheckingSquares(fen: string, color: Color = 'w'): string[] {
+  const game = new Chess(fen, { skipValidation: true });
+  const king = findKing(game, color);
+  if (!king) return [];
+  return game.attackers(king, color === 'w' ? 'b' : 'w');
+}
+
+/** Whether the piece on `square` can't be captured by the other side. */
+export function isSquareSafe(fen: string, square: string, color: Color = 'w'): boolean {
+  const game = new Chess(fen, { skipValidation: true });
+  return !game.isAttacked(square as Square, color === 'w' ? 'b' : 'w');
+}
+
+export function isKingSafe(fen: string, color: Color = 'w'): boolean {
+  return getCheckingSquares(fen, color).length === 0;
+}
+
+/**
+ * The checking pieces plus, for rooks, bishops and queens, every square
+ * between them and the king - the line a piece could block.
+ */
+export function getCheckLine(fen: string, color: Color = 'w'): string[] {
+  const game = new Chess(fen, { skipValidation: true });
+  const king = findKing(game, color);
+  if (!king) return [];
+
+  const line = new Set<string>();
+  for (const checker of getCheckingSquares(fen, color)) {
+    line.add(checker);
+    if (!['r', 'b', 'q'].includes(game.get(checker as Square)?.type || '')) continue;
+
+    const fileStep = Math.sign(king.charCodeAt(0) - checker.charCodeAt(0));
+    const rankStep = Math.sign(parseInt(king[1]) - parseInt(checker[1]));
+    let file = checker.charCodeAt(0) + fileStep;
+    let rank = parseInt(checker[1]) + rankStep;
+    while (`${String.fromCharCode(file)}${rank}` !== king) {
+      line.add(`${String.fromCharCode(file)}${rank}`);
+      file += fileStep;
+      rank += rankStep;
+    }
+  }
+  return [...line];
+}
+
+// Repetition compares piece placement, side to move, castling and en passant
+function positionKey(fen: string): string {
+  return fen.split(' ').slice(0, 4).join(' ');
+}
+
+/**
+ * Checks whether the game in `fen` is over. `positionHistory` holds every
+ * position reached so far (including `fen`) and is used for threefold
+ * repetition, since boards are rebuilt from FEN and chess.js loses its history.
+ */
+export function getGameOutcome(fen: string, positionHistory: string[] = [fen]): GameOutcome | null {
+  let game: Chess;
+  try {
+    game = new Chess(fen);
+  } catch {
+    // Lesson boards without both kings never end
+    return null;
+  }
+
+  if (game.isCheckmate()) {
+    return { reason: 'checkmate', winner: game.turn() === 'w' ? 'b' : 'w' };
+  }
+  if (game.isStalemate()) return { reason: 'stalemate', winner: null };
+  if (game.isInsufficientMaterial()) return { reason: 'insufficient-material', winner: null };
+
+  const key = positionKey(fen);
+  if (positionHistory.filter((position) => positionKey(position) === key).length >= 3) {
+    return { reason: 'threefold-repetition', winner: null };
+  }
+
+  // The halfmove clock counts plies, so 100 means 50 moves by each side
+  if (parseInt(fen.split(' ')[4]) >= 100) {
+    return { reason: 'fifty-move-rule', winner: null };
+  }
+
+  return null;
+}
+
+export interface SetupPieceScore {
+  piece: string;   // FEN piece letter, e.g. "R" for a white rook
+  correct: number; // Pieces of this kind on one of their target squares
+  total: number;   // Pieces of this kind in the target position
+}
+
+const SETUP_PIECE_ORDER = 'KQRBNPkqrbnp';
+
+const PIECE_NAMES: Record<string, [string, string]> = {
+  k: ['king', 'kings'],
+  q: ['queen', 'queens'],
+  r: ['rook', 'rooks'],
+  b: ['bishop', 'bishops'],
+  n: ['knight', 'knights'],
+  p: ['pawn', 'pawns'],
+};
+
+/** Reads the piece placement field of a FEN into square -> piece letter. */
+export function getPlacement(fen: string): Record<string, string> {
+  const placement: Record<string, string> = {};
+  fen.split(' ')[0].split('/').forEach((row, rowIndex) => {
+    let fileIndex = 0;
+    for (const char of row) {
+      if (/\d/.test(char)) {
+        fileIndex += parseInt(char);
+      } else {
+        placement[`${String.fromCharCode(97 + fileIndex)}${8 - rowIndex}`] = char;
+        fileIndex++;
+      }
+    }
+  });
+  return placement;
+}
+
+/** Partial credit for a setup: how many of each piece are already in place. */
+export function scoreSetup(placedPieces: Record<string, string>, targetFen: string): SetupPieceScore[] {
+  const target = getPlacement(targetFen);
+  const scores: Record<string, SetupPieceScore> = {};
+
+  for (const [square, piece] of Object.entries(target)) {
+    scores[piece] ??= { piece, correct: 0, total: 0 };
+    scores[piece].total++;
+    if (placedPieces[square] === piece) scores[piece].correct++;
+  }
+
+  return Object.values(scores).sort(
+    (a, b) => SETUP_PIECE_ORDER.indexOf(a.piece) - SETUP_PIECE_ORDER.indexOf(b.piece)
+  );
+}
+
+/** Squares holding a piece that doesn't belong there in the target position. */
+export function getMisplacedSquares(placedPieces: Record<string, string>, targetFen: string): string[] {
+  const target = getPlacement(targetFen);
+  return Object.keys(placedPieces).filter((square) => target[square] !== placedPieces[square]);
+}
+
+/** A hint about where a piece lives in the target position, e.g. "Rooks live on a1 and h1." */
+export function getSetupHint(piece: string, targetFen: string): string {
+  const homes = Object.entries(getPlacement(targetFen))
+    .filter(([, targetPiece]) => targetPiece === piece)
+    .map(([square]) => square)
+    .sort();
+  const [singular, plural] = PIECE_NAMES[piece.toLowerCase()];
+
+  if (homes.length === 0) return `There is no ${singular} of this color in this position.`;
+  if (homes.length === 1) return `The ${singular} lives on ${homes[0]}.`;
+
+  const ranks = new Set(homes.map((square) => square[1]));
+  const name = plural[0].toUpperCase() + plural.slice(1);
+  if (homes.length > 2 && ranks.size === 1) return `${name} line up on row ${homes[0][1]}.`;
+  return `${name} live on ${homes.slice(0, -1).join(', ')} and ${homes[homes.length - 1]}.`;
+}
+
 export function handleSquareTap(square: string, state: LessonState): LessonState {
   const newTapped = new Set(state.tappedSquares);
   newTapped.add(square);
@@ -310,29 +959,88 @@ export function handleSquareTap(square: string, state: LessonState): LessonState
     ...state,
     tappedSquares: newTapped,
     tappedCorners: newCorners,
+    lastTappedSquare: square,
   };
 }
 
-export function handleMove(
+/**
+ * Puts a piece on a square during a board setup. `fromSquare` is set when the
+ * piece was picked up from another square rather than from the tray.
+ */
+export function handlePlacePiece(
   state: LessonState,
-  moveInfo: { piece: string; from: string; to: string; isCapture: boolean }
+  square: string,
+  piece: string,
+  fromSquare?: string
 ): LessonState {
-  const fromRank = parseInt(moveInfo.from[1]);
-  const toRank = parseInt(moveInfo.to[1]);
-  const distance = Math.abs(toRank - fromRank);
+  const placedPieces = { ...state.placedPieces };
+  if (fromSquare) delete placedPieces[fromSquare];
+  placedPieces[square] = piece;
+  return { ...state, placedPieces };
+}
+
+export function handleRemovePiece(state: LessonState, square: string): LessonState {
+  const placedPieces = { ...state.placedPieces };
+  delete placedPieces[square];
+  return { ...state, placedPieces };
+}
+
+/** The first quiz square without a right answer yet, or null when the quiz is done. */
+export function getNextColorQuizSquare(validator: ObjectiveValidator, state: LessonState): string | null {
+  const squares = validator.requiredSquares || [];
+  return squares.find((square) => state.colorAnswers[square] !== getSquareColor(square)) ?? null;
+}
+
+export function handleColorAnswer(state: LessonState, square: string, color: SquareColor): LessonState {
+  return {
+    ...state,
+    colorAnswers: { ...state.colorAnswers, [square]: color },
+  };
+}
+
+export function handleMove(state: LessonState, moveInfo: MoveInfo): LessonState {
+  const lastMove = describeMove(moveInfo);
+  const increment = (counts: Record<string, number>, key: string | undefined) =>
+    key ? { ...counts, [key]: (counts[key] || 0) + 1 } : counts;
 
   return {
     ...state,
     moveCount: state.moveCount + 1,
     captureCount: state.captureCount + (moveInfo.isCapture ? 1 : 0),
-    lastMove: {
-      piece: moveInfo.piece,
-      distance,
-      isCapture: moveInfo.isCapture
-    }
+    capturesByPiece: moveInfo.isCapture ? increment(state.capturesByPiece, moveInfo.piece.toLowerCase()) : state.capturesByPiece,
+    capturedPieces: increment(state.capturedPieces, moveInfo.captured?.toLowerCase()),
+    lastMove,
+    moveHistory: [...state.moveHistory, lastMove],
+  };
+}
+
+/**
+ * Takes back a move that was undone on the board: everything handleMove
+ * counted comes from the state saved before that move.
+ */
+export function undoMove(state: LessonState, before: LessonState): LessonState {
+  return {
+    ...state,
+    moveCount: before.moveCount,
+    captureCount: before.captureCount,
+    capturesByPiece: before.capturesByPiece,
+    capturedPieces: before.capturedPieces,
+    lastMove: before.lastMove,
+    moveHistory: before.moveHistory,
   };
 }
 
+export function handleGameEnd(state: LessonState, outcome: GameOutcome): LessonState {
+  return {
+    ...state,
+    gameOutcome: outcome,
+  };
+}
+
+export function isQuizAnswerCorrect(quiz: QuizQuestion, optionIndex: number): boolean {
+  return optionIndex === quiz.correctOption;
+}
+
 export function handleAnswer(state: LessonState, isCorrect: boolean): LessonState {
   return {
     ...state,
@@ -345,9 +1053,111 @@ export function resetObjectiveState(state: LessonState): LessonState {
     ...state,
     tappedSquares: new Set(),
     tappedCorners: new Set(),
+    lastTappedSquare: undefined,
     moveCount: 0,
     captureCount: 0,
+    capturesByPiece: {},
+    capturedPieces: {},
+    placedPieces: {},
     answeredCorrectly: false,
+    colorAnswers: {},
     lastMove: undefined,
+    moveHistory: [],
+    repliesPlayed: 0,
+  };
+}
+
+const SINGLE_MOVE_TYPES: ObjectiveValidator['type'][] = [
+  'move-piece',
+  'deliver-checkmate',
+  'promote',
+  'castle',
+  'en-passant',
+  'escape-check',
+  'give-check',
+  'safe-after-move',
+];
+
+/**
+ * Whether the validator is answered by one move, so any move that doesn't
+ * complete it is a mistake. Counting validators need several moves instead.
+ */
+export function expectsSingleMove(validator: ObjectiveValidator): boolean {
+  if (validator.type === 'capture') return (validator.requiredCount || 1) === 1;
+  if (validator.type === 'all-of') return (validator.validators || []).some(expectsSingleMove);
+  if (validator.type === 'any-of') return (validator.validators || []).every(expectsSingleMove);
+  return SINGLE_MOVE_TYPES.includes(validator.type);
+}
+
+/**
+ * Whether the move just made, which didn't complete the objective, was a
+ * mistake that should be undone. In a sequence only the current step counts:
+ * a move that doesn't finish a single-move step (moving the king before
+ * castling) is wrong, even though the sequence as a whole takes several moves.
+ * When every capture must come from a different piece, a repeat capture is wrong.
+ */
+export function isWrongMove(validator: ObjectiveValidator, state: LessonState): boolean {
+  if (!state.lastMove) return false;
+
+  if (validator.type === 'sequence') {
+    const steps = validator.validators || [];
+    const stepsBefore = countSequenceSteps(steps, { ...state, moveHistory: state.moveHistory.slice(0, -1) });
+    const currentStep = steps[stepsBefore];
+    return !!currentStep && expectsSingleMove(currentStep) && countSequenceSteps(steps, state) === stepsBefore;
+  }
+
+  // A second capture by the same kind of piece uses up a target another piece needed
+  if (validator.type === 'capture' && validator.distinctPieces) {
+    return state.lastMove.isCapture && (state.capturesByPiece[state.lastMove.piece.toLowerCase()] || 0) > 1;
+  }
+
+  return expectsSingleMove(validator);
+}
+
+export function getObjectiveStartFen(config: LessonConfig, objectiveIndex: number): string | null {
+  const objective = config.objectives[objectiveIndex];
+  if (objective?.fen) return objective.fen;
+  return objectiveIndex === 0 ? config.fen : null;
+}
+
+export function getNextOpponentReply(objective: LessonObjective, state: LessonState): string | undefined {
+  return objective.opponentReplies?.[state.repliesPlayed];
+}
+
+/**
+ * Plays a scripted reply (SAN or from-to like "e7e5") and returns the new FEN,
+ * or null if the reply is not legal in this position.
+ */
+export function playOpponentReply(fen: string, reply: string): string | null {
+  try {
+    const game = new Chess(fen, { skipValidation: true });
+    game.move(reply);
+    return game.fen();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Positions to show for an objective's demo: the start and the board after each
+ * demo move. Stops early if a move turns out to be illegal.
+ */
+export function getDemoPositions(objective: LessonObjective): string[] {
+  const start = objective.demo?.fen || objective.fen;
+  if (!objective.demo || !start) return [];
+
+  const positions = [start];
+  for (const move of objective.demo.moves) {
+    const next = playOpponentReply(positions[positions.length - 1], move);
+    if (!next) break;
+    positions.push(next);
+  }
+  return positions;
+}
+
+export function handleOpponentReply(state: LessonState): LessonState {
+  return {
+    ...state,
+    repliesPlayed: state.repliesPlayed + 1,
   };
 }
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { lessons, type Lesson } from './lessons';
+import {
+  lessonBranches,
+  getMissingPrerequisites,
+  getLessonStatus,
+  getLockReason,
+  getLessonDepth,
+  getBranchLessons,
+  getNextLesson,
+  findGraphProblems,
+} from './lessonGraph';
+
+const makeLesson = (id: number, prerequisites: number[], extra: Partial<Lesson> = {}): Lesson => ({
+  id,
+  title: `Lesson ${id}`,
+  icon: '⭐',
+  description: '',
+  storyIntro: '',
+  objectives: [],
+  branch: 'basics',
+  prerequisites,
+  ...extra,
+});
+
+describe('lessonGraph', () => {
+  it('keeps the built-in curriculum free of broken links and cycles', () => {
+    expect(findGraphProblems(lessons)).toEqual([]);
+    lessons.forEach((lesson) => {
+      expect(lessonBranches.map((branch) => branch.id)).toContain(lesson.branch);
+    });
+  });
+
+  it('only opens the first lesson for a new player', () => {
+    const progress = { stars: 0, completedLessons: [] };
+    const open = lessons.filter((lesson) => getLessonStatus(lesson, progress) !== 'locked');
+    expect(open.map((lesson) => lesson.id)).toEqual([1]);
+  });
+
+  it('does not unlock lessons for stars alone', () => {
+    // Replaying the pawn lesson many times used to open everything
+    const progress = { stars: 100, completedLessons: [1, 2] };
+    const available = lessons.filter((lesson) => getLessonStatus(lesson, progress) === 'available');
+    expect(available.map((lesson) => lesson.id).sort((a, b) => a - b)).toEqual([3, 4, 5, 13]);
+  });
+
+  it('opens a lesson once all of its prerequisites are done', () => {
+    const queen = lessons.find((lesson) => lesson.id === 6)!;
+    expect(getMissingPrerequisites(queen, [1, 2, 4])).toEqual([5]);
+    expect(getLessonStatus(queen, { stars: 0, completedLessons: [1, 2, 4] })).toBe('locked');
+    expect(getLessonStatus(queen, { stars: 0, completedLessons: [1, 2, 4, 5] })).toBe('available');
+    expect(getLessonStatus(queen, { stars: 0, completedLessons: [6] })).toBe('completed');
+  });
+
+  it('checks the optional star minimum after the prerequisites', () => {
+    const lesson = makeLesson(2, [1], { minStars: 10 });
+    expect(getLessonStatus(lesson, { stars: 9, completedLessons: [1] })).toBe('locked');
+    expect(getLockReason(lesson, { stars: 9, completedLessons: [1] }, [makeLesson(1, []), lesson])).toBe('Needs 10 stars');
+    expect(getLessonStatus(lesson, { stars: 10, completedLessons: [1] })).toBe('available');
+  });
+
+  it('names the lessons still to finish', () => {
+    const queen = lessons.find((lesson) => lesson.id === 6)!;
+    expect(getLockReason(queen, { stars: 0, completedLessons: [] })).toBe('Finish The Tower Rook and The Sneaky Bishop first');
+    expect(getLockReason(queen, { stars: 0, completedLessons: [4] })).toBe('Finish The Sneaky Bishop first');
+    expect(getLockReason(queen, { stars: 0, completedLessons: [4, 5] })).toBeNull();
+  });
+
+  it('orders a branch by how deep each lesson sits', () => {
+    const graph = [makeLesson(1, []), makeLesson(2, [3]), makeLesson(3, [1]), makeLesson(4, [1, 2])];
+    expect(getLessonDepth(graph[3], graph)).toBe(3);
+    expect(getBranchLessons('basics', graph).map((lesson) => lesson.id)).toEqual([1, 3, 2, 4]);
+  });
+
+  it('moves on within the branch before jumping to another one', () => {
+    const knight = lessons.find((lesson) => lesson.id === 3)!;
+    expect(getNextLesson(knight, { stars: 0, completedLessons: [1, 2, 3] })?.id).toBe(4);
+
+    const enPassant = lessons.find((lesson) => lesson.id === 13)!;
+    expect(getNextLesson(enPassant, { stars: 0, completedLessons: [1, 2, 13] })?.id).toBe(3);
+    expect(getNextLesson(enPassant, { stars: 0, completedLessons: lessons.map((lesson) => lesson.id) })).toBeNull();
+  });
+
+  it('reports unknown prerequisites and cycles', () => {
+    const graph = [makeLesson(1, [3]), makeLesson(2, [1]), makeLesson(3, [2]), makeLesson(4, [99])];
+    const problems = findGraphProblems(graph);
+    expect(problems).toContain('Lesson 4 needs unknown lesson 99');
+    expect(problems.some((problem) => problem.includes('form a cycle'))).toBe(true);
+  });
+});
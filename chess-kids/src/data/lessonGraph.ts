@@ -0,0 +1,126 @@
+import { lessons as allLessons, type Lesson, type LessonBranch } from './lessons';
+import type { ProfileProgress } from './profiles';
+
+/**
+ * completed: done at least once, can be replayed
+ * available: every prerequisite is done, ready to start
+ * locked: something is still missing
+ */
+export type LessonStatus = 'completed' | 'available' | 'locked';
+
+type LessonProgress = Pick<ProfileProgress, 'stars' | 'completedLessons'>;
+
+export interface LessonBranchInfo {
+  id: LessonBranch;
+  title: string;
+  icon: string;
+}
+
+// Branches open side by side, in this order on the home screen
+export const lessonBranches: LessonBranchInfo[] = [
+  { id: 'basics', title: 'First Steps', icon: '🌱' },
+  { id: 'pieces', title: 'Meet the Pieces', icon: '♞' },
+  { id: 'special-moves', title: 'Special Moves', icon: '✨' },
+  { id: 'winning', title: 'Win the Game', icon: '🏆' },
+];
+
+export function getMissingPrerequisites(lesson: Lesson, completedLessons: number[]): number[] {
+  return lesson.prerequisites.filter((id) => !completedLessons.includes(id));
+}
+
+export function getLessonStatus(lesson: Lesson, progress: LessonProgress): LessonStatus {
+  // A completed lesson stays open even if the graph changed since
+  if (progress.completedLessons.includes(lesson.id)) return 'completed';
+  if (getMissingPrerequisites(lesson, progress.completedLessons).length > 0) return 'locked';
+  if (progress.stars < (lesson.minStars ?? 0)) return 'locked';
+  return 'available';
+}
+
+/** What the child still has to do before a locked lesson opens, or null if it is open. */
+export function getLockReason(lesson: Lesson, progress: LessonProgress, lessons: Lesson[] = allLessons): string | null {
+  if (getLessonStatus(lesson, progress) !== 'locked') return null;
+
+  const missing = getMissingPrerequisites(lesson, progress.completedLessons);
+  if (missing.length > 0) {
+    const titles = missing.map((id) => lessons.find((other) => other.id === id)?.title ?? `lesson ${id}`);
+    const list = titles.length > 1 ? `${titles.slice(0, -1).join(', ')} and ${titles[titles.length - 1]}` : titles[0];
+    return `Finish ${list} first`;
+  }
+  return `Needs ${lesson.minStars} stars`;
+}
+
+/** Length of the longest prerequisite chain leading to a lesson (0 for a starting lesson). */
+export function getLessonDepth(lesson: Lesson, lessons: Lesson[] = allLessons): number {
+  const depths = new Map<number, number>();
+
+  const depthOf = (current: Lesson, path: number[]): number => {
+    const known = depths.get(current.id);
+    if (known !== undefined) return known;
+    if (path.includes(current.id)) return 0; // Cycles are reported by findGraphProblems
+
+    const parents = current.prerequisites
+      .map((id) => lessons.find((other) => other.id === id))
+      .filter((parent): parent is Lesson => !!parent);
+    const depth = parents.length === 0
+      ? 0
+      : 1 + Math.max(...parents.map((parent) => depthOf(parent, [...path, current.id])));
+    depths.set(current.id, depth);
+    return depth;
+  };
+
+  return depthOf(lesson, []);
+}
+
+/** Lessons in a branch, earliest first: by how deep they sit in the graph, then by id. */
+export function getBranchLessons(branch: LessonBranch, lessons: Lesson[] = allLessons): Lesson[] {
+  return lessons
+    .filter((lesson) => lesson.branch === branch)
+    .map((lesson) => ({ lesson, depth: getLessonDepth(lesson, lessons) }))
+    .sort((a, b) => a.depth - b.depth || a.lesson.id - b.lesson.id)
+    .map(({ lesson }) => lesson);
+}
+
+/**
+ * Where to go after finishing a lesson: the next available lesson in the same
+ * branch, otherwise the first available one in any branch. Null when nothing is open.
+ */
+export function getNextLesson(finished: Lesson, progress: LessonProgress, lessons: Lesson[] = allLessons): Lesson | null {
+  const branchOrder = [finished.branch, ...lessonBranches.map((branch) => branch.id).filter((id) => id !== finished.branch)];
+  for (const branch of branchOrder) {
+    const next = getBranchLessons(branch, lessons).find((lesson) => getLessonStatus(lesson, progress) === 'available');
+    if (next) return next;
+  }
+  return null;
+}
+
+/**
+ * Mistakes that would leave a lesson locked forever: prerequisites that don't
+ * exist and prerequisite cycles. Returns an empty list for a healthy graph.
+ */
+export function findGraphProblems(lessons: Lesson[] = allLessons): string[] {
+  const problems: string[] = [];
+  const ids = new Set(lessons.map((lesson) => lesson.id));
+
+  lessons.forEach((lesson) => {
+    lesson.prerequisites
+      .filter((id) => !ids.has(id))
+      .forEach((id) => problems.push(`Lesson ${lesson.id} needs unknown lesson ${id}`));
+  });
+
+  // Depth-first search; a lesson seen again on the current path closes a cycle
+  const done = new Set<number>();
+  const visit = (id: number, path: number[]) => {
+    if (path.includes(id)) {
+      problems.push(`Lessons ${[...path.slice(path.indexOf(id)), id].join(' -> ')} form a cycle`);
+      return;
+    }
+    if (done.has(id)) return;
+
+    const lesson = lessons.find((other) => other.id === id);
+    lesson?.prerequisites.forEach((parent) => visit(parent, [...path, id]));
+    done.add(id);
+  };
+  lessons.forEach((lesson) => visit(lesson.id, []));
+
+  return problems;
+}
@@ -1,3 +1,5 @@
+export type LessonBranch = "basics" | "pieces" | "special-moves" | "winning";
+
 export interface Lesson {
   id: number;
   title: string;
@@ -6,7 +8,9 @@ export interface Lesson {
   storyIntro: string;
   piece?: string;
   objectives: string[];
-  unlockStars: number;
+  branch: LessonBranch;
+  prerequisites: number[]; // Lessons that must be completed first
+  minStars?: number;       // Optional extra star requirement
 }
 
 export const lessons: Lesson[] = [
@@ -19,9 +23,11 @@ export const lessons: Lesson[] = [
     objectives: [
       "Tap 5 squares where pieces could live",
       "Find the 4 corner homes (Rooks live here!)",
-      "Count the squares in the bottom row"
+      "Count the squares in the bottom row",
+      "Tell light squares from dark ones"
     ],
-    unlockStars: 0
+    branch: "basics",
+    prerequisites: []
   },
   {
     id: 2,
@@ -35,7 +41,8 @@ export const lessons: Lesson[] = [
       "Try a 'Big Step'! Move a pawn 2 squares",
       "Great! Make any move to finish"
     ],
-    unlockStars: 3
+    branch: "basics",
+    prerequisites: [1]
   },
   {
     id: 3,
@@ -49,7 +56,8 @@ export const lessons: Lesson[] = [
       "Jump over other pieces",
       "Capture a piece with the knight"
     ],
-    unlockStars: 6
+    branch: "pieces",
+    prerequisites: [2]
   },
   {
     id: 4,
@@ -63,7 +71,8 @@ export const lessons: Lesson[] = [
       "Move the rook vertically",
       "Capture a piece with the rook"
     ],
-    unlockStars: 9
+    branch: "pieces",
+    prerequisites: [2]
   },
   {
     id: 5,
@@ -77,7 +86,8 @@ export const lessons: Lesson[] = [
       "Notice it stays on one color",
       "Capture a piece with the bishop"
     ],
-    unlockStars: 12
+    branch: "pieces",
+    prerequisites: [2]
   },
   {
     id: 6,
@@ -91,7 +101,8 @@ export const lessons: Lesson[] = [
       "Move the queen diagonally",
       "Capture pieces with the queen"
     ],
-    unlockStars: 15
+    branch: "pieces",
+    prerequisites: [4, 5]
   },
   {
     id: 7,
@@ -99,13 +110,15 @@ export const lessons: Lesson[] = [
     icon: "🤴",
     piece: "k",
     description: "Keep your King safe!",
-    storyIntro: "The King is the most important piece! If he's trapped, you lose! He can only move one square at a time, so keep him safe!",
+    storyIntro: "The King is the most important piece! If he's trapped, you lose! He can only move one square at a time, so keep him safe! When an enemy piece attacks the King, it's called check, and you must save him right away.",
     objectives: [
-      "Move the king one square",
-      "Keep the king away from danger",
-      "Understand what 'check' means"
+      "Move the king out of check",
+      "Block a check",
+      "Capture the piece giving check",
+      "Give check to the other king"
     ],
-    unlockStars: 18
+    branch: "pieces",
+    prerequisites: [6]
   },
   {
     id: 8,
@@ -118,7 +131,8 @@ export const lessons: Lesson[] = [
       "Capture using different pieces",
       "Avoid getting captured"
     ],
-    unlockStars: 21
+    branch: "winning",
+    prerequisites: [3, 6]
   },
   {
     id: 9,
@@ -129,21 +143,69 @@ export const lessons: Lesson[] = [
     objectives: [
       "Find checkmate in 1 move",
       "Use the Queen to checkmate",
-      "Use the Rook to checkmate"
+      "Use the Rook to checkmate",
+      "Spot the checkmate picture"
     ],
-    unlockStars: 24
+    branch: "winning",
+    prerequisites: [7, 8]
   },
   {
     id: 10,
     title: "Play a Game!",
     icon: "🏆",
     description: "You're ready to play chess!",
-    storyIntro: "Congratulations, young chess master! You've learned all the pieces and rules. Now it's time to play a real game!",
+    storyIntro: "Congratulations, young chess master! You've learned all the pieces and rules. Now it's time to play a real game against the computer!",
     objectives: [
       "Set up the board correctly",
       "Play a full game",
       "Have fun!"
     ],
-    unlockStars: 27
+    branch: "winning",
+    prerequisites: [9]
+  },
+  {
+    id: 11,
+    title: "Pawn Power-Up!",
+    icon: "👑",
+    piece: "p",
+    description: "Turn a pawn into any piece",
+    storyIntro: "When a brave pawn marches all the way to the other side of the board, something magical happens: it can become a Queen, a Rook, a Bishop or even a Knight! Most of the time a Queen is best, but sometimes a sneaky Knight is the hero.",
+    objectives: [
+      "Reach the last row with a pawn",
+      "Make a Queen",
+      "Make a Knight to fork the king and queen"
+    ],
+    branch: "special-moves",
+    prerequisites: [3, 6]
+  },
+  {
+    id: 12,
+    title: "The King's Secret Hideout",
+    icon: "🏯",
+    piece: "k",
+    description: "Castle to keep your king safe",
+    storyIntro: "Once per game, the King and a Rook can do a magic trick called castling! The King takes two big steps toward the Rook, and the Rook jumps right over him to stand guard. Now the King is tucked safely in his castle, away from danger.",
+    objectives: [
+      "Castle on the King's side",
+      "Castle on the Queen's side",
+      "Clear the way, then castle"
+    ],
+    branch: "special-moves",
+    prerequisites: [4, 7]
+  },
+  {
+    id: 13,
+    title: "Caught in Passing!",
+    icon: "👻",
+    piece: "p",
+    description: "Learn the sneaky en passant capture",
+    storyIntro: "Pawns have a sneaky secret! When an enemy pawn jumps two squares to zoom past your pawn, your pawn can still catch it, as if it had only moved one square. It's called en passant, which means \"in passing\". But hurry: you can only do it right away!",
+    objectives: [
+      "Catch a pawn in passing",
+      "Catch another pawn in passing",
+      "Find the en passant capture"
+    ],
+    branch: "special-moves",
+    prerequisites: [2]
   }
 ];
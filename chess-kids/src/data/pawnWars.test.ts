@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import {
+  PAWN_WARS_FEN,
+  getPawnWarsOutcome,
+  choosePawnWarsMove,
+  playPawnWarsMove,
+} from './pawnWars';
+
+describe('pawnWars', () => {
+  describe('getPawnWarsOutcome', () => {
+    it('keeps going from the starting position', () => {
+      expect(getPawnWarsOutcome(PAWN_WARS_FEN)).toBeNull();
+    });
+
+    it('lets the first pawn to reach the end win', () => {
+      const fen = playPawnWarsMove('8/4P3/8/8/8/p7/8/8 w - - 0 1', 'e7', 'e8');
+      expect(getPawnWarsOutcome(fen!)).toEqual({ reason: 'reached-end', winner: 'w' });
+
+      const blackFen = playPawnWarsMove('8/8/8/8/8/P7/4p3/8 b - - 0 1', 'e2', 'e1');
+      expect(getPawnWarsOutcome(blackFen!)).toEqual({ reason: 'reached-end', winner: 'b' });
+    });
+
+    it('lets a side win by capturing every enemy pawn', () => {
+      const fen = playPawnWarsMove('8/8/8/3p4/4P3/8/8/8 w - - 0 1', 'e4', 'd5');
+      expect(getPawnWarsOutcome(fen!)).toEqual({ reason: 'all-captured', winner: 'w' });
+    });
+
+    it('calls it a draw when the side to move is stuck', () => {
+      expect(getPawnWarsOutcome('8/8/8/4p3/4P3/8/8/8 w - - 0 1')).toEqual({ reason: 'blocked', winner: null });
+    });
+  });
+
+  describe('choosePawnWarsMove', () => {
+    it('takes a win when there is one', () => {
+      const move = choosePawnWarsMove('8/8/8/8/8/P7/4p3/8 b - - 0 1');
+      expect(move).toMatchObject({ from: 'e2', to: 'e1' });
+    });
+
+    it('prefers a safe capture over a quiet push', () => {
+      const move = choosePawnWarsMove('8/7p/8/3p4/4P3/8/P7/8 b - - 0 1');
+      expect(move).toMatchObject({ from: 'd5', to: 'e4' });
+    });
+
+    it('does not push into a square where it just gets taken', () => {
+      // d5 is covered by the c4 pawn; h-pawn pushes are safe
+      for (let i = 0; i < 10; i++) {
+        const move = choosePawnWarsMove('8/3p3p/8/8/2P5/8/7P/8 b - - 0 1', () => i / 10);
+        expect(move?.to).not.toBe('d5');
+      }
+    });
+
+    it('returns null when there is nothing to play', () => {
+      expect(choosePawnWarsMove('8/8/8/4p3/4P3/8/8/8 w - - 0 1')).toBeNull();
+    });
+  });
+
+  it('rejects moves a pawn cannot make', () => {
+    expect(playPawnWarsMove(PAWN_WARS_FEN, 'e2', 'e5')).toBeNull();
+    expect(playPawnWarsMove(PAWN_WARS_FEN, 'e2', 'e4')).toContain('4P3');
+  });
+});
@@ -0,0 +1,106 @@
+import { Chess, type Color, type Move } from 'chess.js';
+import { getPlacement } from './lessonEngine';
+
+export const PAWN_WARS_ACTIVITY = 'pawn-wars';
+// Pawn Wars opens up once The Brave Pawn lesson is done
+export const PAWN_WARS_LESSON = 2;
+export const PAWN_WARS_FEN = '8/pppppppp/8/8/8/8/PPPPPPPP/8 w - - 0 1';
+
+export type PawnWarsMode = 'computer' | 'sibling';
+export type PawnWarsEndReason = 'reached-end' | 'all-captured' | 'blocked';
+
+export interface PawnWarsOutcome {
+  reason: PawnWarsEndReason;
+  winner: Color | null; // null when nobody can move
+}
+
+const otherColor = (color: Color): Color => (color === 'w' ? 'b' : 'w');
+
+// Pawn Wars has no kings, so chess.js' own game-over checks don't apply
+const loadGame = (fen: string) => new Chess(fen, { skipValidation: true });
+
+/**
+ * Pawn Wars rules on top of a chess.js position: a pawn that reaches the far
+ * rank wins (chess.js will have promoted it, so any white piece on rank 8 or
+ * black piece on rank 1 counts), so does capturing every enemy pawn. If the
+ * side to move has no legal move, the game is blocked and nobody wins.
+ */
+export function getPawnWarsOutcome(fen: string): PawnWarsOutcome | null {
+  const pieces = Object.entries(getPlacement(fen));
+
+  for (const [square, piece] of pieces) {
+    if (piece === piece.toUpperCase() && square[1] === '8') return { reason: 'reached-end', winner: 'w' };
+    if (piece === piece.toLowerCase() && square[1] === '1') return { reason: 'reached-end', winner: 'b' };
+  }
+
+  const hasPawns = (color: Color) => pieces.some(([, piece]) => piece === (color === 'w' ? 'P' : 'p'));
+  if (!hasPawns('b')) return { reason: 'all-captured', winner: 'w' };
+  if (!hasPawns('w')) return { reason: 'all-captured', winner: 'b' };
+
+  if (loadGame(fen).moves().length === 0) return { reason: 'blocked', winner: null };
+
+  return null;
+}
+
+// Whether a pawn of `color` on `square` could be taken by an enemy pawn right away
+function isAttackedByPawn(game: Chess, square: string, color: Color): boolean {
+  return game.attackers(square as Move['to'], otherColor(color)).length > 0;
+}
+
+function scoreMove(fen: string, move: Move): number {
+  const game = loadGame(fen);
+  game.move(move);
+  const after = game.fen();
+  const outcome = getPawnWarsOutcome(after);
+  if (outcome?.winner === move.color) return 1000;
+
+  // Never hand the opponent a winning reply if it can be helped
+  const replies = game.moves({ verbose: true });
+  if (replies.some((reply) => {
+    const next = loadGame(after);
+    next.move(reply);
+    return getPawnWarsOutcome(next.fen())?.winner === reply.color;
+  })) {
+    return -1000;
+  }
+
+  const rank = parseInt(move.to[1]);
+  const advance = move.color === 'w' ? rank : 9 - rank;
+  const safe = !isAttackedByPawn(game, move.to, move.color) || game.attackers(move.to, move.color).length > 0;
+
+  return (move.captured ? 20 : 0) + (safe ? 10 : -15) + advance;
+}
+
+/**
+ * A simple Pawn Wars opponent: wins when it can, avoids giving away a win,
+ * then prefers captures and safe pushes. Ties are broken at random.
+ */
+export function choosePawnWarsMove(fen: string, random: () => number = Math.random): Move | null {
+  const moves = loadGame(fen).moves({ verbose: true });
+  if (moves.length === 0) return null;
+
+  let bestScore = -Infinity;
+  let bestMoves: Move[] = [];
+  for (const move of moves) {
+    const score = scoreMove(fen, move);
+    if (score > bestScore) {
+      bestScore = score;
+      bestMoves = [move];
+    } else if (score === bestScore) {
+      bestMoves.push(move);
+    }
+  }
+
+  return bestMoves[Math.floor(random() * bestMoves.length)];
+}
+
+/** Plays a move given in from-to form; returns the new FEN or null if it isn't legal. */
+export function playPawnWarsMove(fen: string, from: string, to: string): string | null {
+  try {
+    const game = loadGame(fen);
+    game.move({ from, to, promotion: 'q' });
+    return game.fen();
+  } catch {
+    return null;
+  }
+}
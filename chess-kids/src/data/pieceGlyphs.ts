@@ -0,0 +1,5 @@
+// Unicode chess symbols keyed by FEN piece letter (uppercase = White)
+export const PIECE_GLYPHS: Record<string, string> = {
+  K: '♔', Q: '♕', R: '♖', B: '♗', N: '♘', P: '♙',
+  k: '♚', q: '♛', r: '♜', b: '♝', n: '♞', p: '♟',
+};
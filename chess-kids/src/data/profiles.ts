@@ -9,6 +9,7 @@ export interface ProfileProgress {
   stars: number;
   completedLessons: number[];
   currentLesson: number;
+  bestTimes?: Record<string, number>; // Fastest finish per timed activity, in ms
 }
 
 export const avatarOptions = [
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
+import { puzzles, getMateInMoves, type Puzzle } from './puzzles';
+import {
+  createPuzzleState,
+  handlePuzzleMove,
+  getPuzzleReply,
+  handlePuzzleReply,
+} from './puzzleEngine';
+
+const mateInTwo: Puzzle = {
+  id: 'test-mate-in-2',
+  title: 'Test',
+  theme: 'sacrifice',
+  fen: '2r3k1/5ppp/8/8/8/8/3R1PPP/3R2K1 w - - 0 1',
+  solution: ['d2d8', 'c8d8', 'd1d8'],
+};
+
+describe('puzzleEngine', () => {
+  describe('puzzle data', () => {
+    it.each(puzzles.map((p) => [p.id, p]))('%s has a legal solution ending in checkmate', (_, puzzle) => {
+      const game = new Chess(puzzle.fen);
+      puzzle.solution.forEach((move) => {
+        game.move({ from: move.slice(0, 2), to: move.slice(2, 4), promotion: move[4] });
+      });
+      expect(game.isCheckmate()).toBe(true);
+    });
+
+    it.each(puzzles.filter((p) => p.solution.length === 3).map((p) => [p.id, p]))('%s mates against every defence', (_, puzzle) => {
+      const [first, , last] = puzzle.solution;
+      const game = new Chess(puzzle.fen);
+      game.move({ from: first.slice(0, 2), to: first.slice(2, 4) });
+
+      // The scripted reply must not be the only one that loses
+      game.moves({ verbose: true }).forEach((reply) => {
+        game.move(reply);
+        const mate = new Chess(game.fen());
+        expect(() => mate.move({ from: last.slice(0, 2), to: last.slice(2, 4) }), `after ${reply.san}`).not.toThrow();
+        expect(mate.isCheckmate(), `after ${reply.san}`).toBe(true);
+        game.undo();
+      });
+    });
+  });
+
+  it('counts mate-in-N from the solution line', () => {
+    expect(getMateInMoves(mateInTwo)).toBe(2);
+    expect(getMateInMoves(puzzles[0])).toBe(1);
+  });
+
+  it('accepts the solution move and waits for the opponent reply', () => {
+    const { state, result } = handlePuzzleMove(mateInTwo, createPuzzleState(mateInTwo), { from: 'd2', to: 'd8' });
+    expect(result).toBe('correct');
+    expect(state.moveIndex).toBe(1);
+    expect(getPuzzleReply(mateInTwo, state)).toBe('c8d8');
+  });
+
+  it('rejects a legal move that is not in the solution line', () => {
+    const start = createPuzzleState(mateInTwo);
+    const { state, result } = handlePuzzleMove(mateInTwo, start, { from: 'g2', to: 'g3' });
+    expect(result).toBe('wrong');
+    expect(state.mistakes).toBe(1);
+    expect(state.moveIndex).toBe(0);
+    expect(state.fen).toBe(start.fen);
+  });
+
+  it('rejects an illegal move', () => {
+    const { result } = handlePuzzleMove(mateInTwo, createPuzzleState(mateInTwo), { from: 'd2', to: 'a5' });
+    expect(result).toBe('wrong');
+  });
+
+  it('solves the puzzle after the full line', () => {
+    let state = handlePuzzleMove(mateInTwo, createPuzzleState(mateInTwo), { from: 'd2', to: 'd8' }).state;
+    state = handlePuzzleReply(mateInTwo, state);
+    expect(state.moveIndex).toBe(2);
+    expect(getPuzzleReply(mateInTwo, state)).toBeUndefined();
+
+    const final = handlePuzzleMove(mateInTwo, state, { from: 'd1', to: 'd8' });
+    expect(final.result).toBe('solved');
+    expect(final.state.solved).toBe(true);
+  });
+
+  it('accepts a different checkmate on the final move', () => {
+    const twoMates: Puzzle = {
+      id: 'test-two-mates',
+      title: 'Test',
+      theme: 'queen-and-rook',
+      fen: 'k7/8/1K6/8/8/8/8/7Q w - - 0 1',
+      solution: ['h1h8'],
+    };
+    const { result } = handlePuzzleMove(twoMates, createPuzzleState(twoMates), { from: 'h1', to: 'b7' });
+    expect(result).toBe('solved');
+  });
+});
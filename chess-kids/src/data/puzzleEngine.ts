@@ -0,0 +1,84 @@
+import { Chess } from 'chess.js';
+import type { Puzzle } from './puzzles';
+import { playOpponentReply } from './lessonEngine';
+
+export type PuzzleMoveResult = 'correct' | 'wrong' | 'solved';
+
+export interface PuzzleState {
+  fen: string;
+  moveIndex: number; // Next move in the solution line
+  mistakes: number;
+  solved: boolean;
+}
+
+export function createPuzzleState(puzzle: Puzzle): PuzzleState {
+  return {
+    fen: puzzle.fen,
+    moveIndex: 0,
+    mistakes: 0,
+    solved: false,
+  };
+}
+
+function matchesSolutionMove(expected: string, from: string, to: string, promotion?: string): boolean {
+  if (expected.slice(0, 4) !== `${from}${to}`) return false;
+  // Only check the promotion piece when the solution asks for one
+  return expected.length < 5 || expected[4] === (promotion || 'q');
+}
+
+export function handlePuzzleMove(
+  puzzle: Puzzle,
+  state: PuzzleState,
+  move: { from: string; to: string; promotion?: string }
+): { state: PuzzleState; result: PuzzleMoveResult } {
+  const expected = puzzle.solution[state.moveIndex];
+  const wrong = { state: { ...state, mistakes: state.mistakes + 1 }, result: 'wrong' as const };
+
+  if (state.solved || !expected) return wrong;
+
+  let game: Chess;
+  try {
+    game = new Chess(state.fen);
+    game.move({ from: move.from, to: move.to, promotion: move.promotion || 'q' });
+  } catch {
+    return wrong;
+  }
+
+  // Any checkmate finishes the puzzle on the final move, even if it isn't the one in the line
+  const isLastMove = state.moveIndex === puzzle.solution.length - 1;
+  const isCorrect = matchesSolutionMove(expected, move.from, move.to, move.promotion)
+    || (isLastMove && game.isCheckmate());
+
+  if (!isCorrect) return wrong;
+
+  const solved = isLastMove;
+  return {
+    state: {
+      ...state,
+      fen: game.fen(),
+      moveIndex: state.moveIndex + 1,
+      solved,
+    },
+    result: solved ? 'solved' : 'correct',
+  };
+}
+
+export function getPuzzleReply(puzzle: Puzzle, state: PuzzleState): string | undefined {
+  // Opponent moves sit at odd positions in the solution line
+  if (state.solved || state.moveIndex % 2 === 0) return undefined;
+  return puzzle.solution[state.moveIndex];
+}
+
+export function handlePuzzleReply(puzzle: Puzzle, state: PuzzleState): PuzzleState {
+  const reply = getPuzzleReply(puzzle, state);
+  if (!reply) return state;
+
+  const fen = playOpponentReply(state.fen, reply);
+  if (!fen) return state;
+
+  return {
+    ...state,
+    fen,
+    moveIndex: state.moveIndex + 1,
+  };
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest';
+import { importPgn, importEpd, parsePgnMoves, puzzleToLessonObjectives } from './puzzleImporter';
+import { createInitialLessonState, checkObjectiveComplete, handleMove } from './lessonEngine';
+
+const PGN = `[Event "Back Rank"]
+[FEN "6k1/5ppp/8/8/8/8/8/3R2K1 w - - 0 1"]
+[Theme "back-rank"]
+
+1. Rd8# 1-0
+
+[Event "Ladder"]
+[FEN "7k/8/8/8/8/8/Q7/1R4K1 w - - 0 1"]
+
+1. Qa7 {quiet move} Kg8 (1... Kg8 2. Rb8#) 2. Rb8# *
+
+[Event "No position"]
+
+1. e4 e5 *
+
+[Event "Illegal"]
+[FEN "6k1/5ppp/8/8/8/8/8/3R2K1 w - - 0 1"]
+
+1. Re9 *
+
+[Event "Not mate"]
+[FEN "6k1/5ppp/8/8/8/8/8/3R2K1 w - - 0 1"]
+
+1. Rd7 *
+
+[Event "Black to move"]
+[FEN "6k1/5ppp/8/8/8/8/8/3R2K1 b - - 0 1"]
+
+1... Kf8 *
+`;
+
+describe('parsePgnMoves', () => {
+  it('strips move numbers, comments, variations, NAGs and results', () => {
+    expect(parsePgnMoves('1. e4! {best by test} e5 $1 (1... c5) 2. Nf3?! ; Ruy next\nNc6 1-0'))
+      .toEqual(['e4', 'e5', 'Nf3', 'Nc6']);
+  });
+});
+
+describe('importPgn', () => {
+  const result = importPgn(PGN, { idPrefix: 'club' });
+
+  it('imports checked puzzles with from-to solutions', () => {
+    expect(result.puzzles).toHaveLength(2);
+
+    const [backRank, ladder] = result.puzzles;
+    expect(backRank).toMatchObject({ id: 'club-1', title: 'Back Rank', theme: 'back-rank', solution: ['d1d8'] });
+    expect(ladder).toMatchObject({ id: 'club-2', theme: 'checkmate', solution: ['a2a7', 'h8g8', 'b1b8'] });
+  });
+
+  it('reports each rejected entry with a reason', () => {
+    expect(result.rejected).toEqual([
+      { entry: 3, label: 'No position', reason: 'Missing position ([FEN] tag)' },
+      { entry: 4, label: 'Illegal', reason: 'Illegal move "Re9" at ply 1' },
+      { entry: 5, label: 'Not mate', reason: 'Solution does not end in checkmate' },
+      { entry: 6, label: 'Black to move', reason: 'Black to move (puzzles are played as White)' },
+    ]);
+  });
+
+  it('can keep non-mating lines for lesson positions', () => {
+    const lenient = importPgn(PGN, { requireCheckmate: false });
+    expect(lenient.puzzles.map(p => p.title)).toContain('Not mate');
+  });
+});
+
+describe('importEpd', () => {
+  it('reads the position, best move, id and theme', () => {
+    const { puzzles, rejected } = importEpd([
+      '# mates in one',
+      '6k1/5ppp/8/8/8/8/8/4R1K1 w - - bm Re8#; id "Back rank"; c0 "back-rank";',
+      '6k1/5ppp/8/8/8/8/8/4R1K1 w - - id "No answer";',
+      'not a position',
+    ].join('\n'));
+
+    expect(puzzles).toHaveLength(1);
+    expect(puzzles[0]).toMatchObject({ title: 'Back rank', theme: 'back-rank', solution: ['e1e8'] });
+    expect(rejected.map(r => r.reason)).toEqual([
+      'No solution moves',
+      'Not an EPD position line',
+    ]);
+  });
+});
+
+describe('puzzleToLessonObjectives', () => {
+  const [ladder] = importPgn(PGN).puzzles.slice(1);
+  const objectives = puzzleToLessonObjectives(ladder);
+
+  it('creates one scripted objective per student move', () => {
+    expect(objectives).toHaveLength(2);
+    expect(objectives[0].fen).toBe(ladder.fen);
+    expect(objectives[0].opponentReplies).toEqual(['h8g8']);
+    expect(objectives[1].fen).toBeUndefined();
+    expect(objectives[1].opponentReplies).toEqual([]);
+  });
+
+  it('only accepts the solution move', () => {
+    const wrong = handleMove(createInitialLessonState(), { piece: 'wQ', from: 'a2', to: 'a8', isCapture: false });
+    expect(checkObjectiveComplete(objectives[0], wrong)).toBe(false);
+
+    const right = handleMove(createInitialLessonState(), { piece: 'wQ', from: 'a2', to: 'a7', isCapture: false });
+    expect(checkObjectiveComplete(objectives[0], right)).toBe(true);
+  });
+});
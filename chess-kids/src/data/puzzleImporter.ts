@@ -0,0 +1,234 @@
+import { Chess, validateFen } from 'chess.js';
+import { puzzleThemeLabels, type Puzzle, type PuzzleTheme } from './puzzles';
+import type { LessonObjective } from './lessonEngine';
+
+export interface ImportRejection {
+  entry: number;  // 1-based position in the file
+  label: string;  // Event / id of the entry, or its first line
+  reason: string;
+}
+
+export interface ImportResult {
+  puzzles: Puzzle[];
+  rejected: ImportRejection[];
+}
+
+export interface ImportOptions {
+  idPrefix?: string;
+  defaultTheme?: PuzzleTheme;
+  requireCheckmate?: boolean; // Puzzle mode only serves mates (default true)
+}
+
+interface RawEntry {
+  format: 'pgn' | 'epd';
+  label: string;
+  fen?: string;
+  title?: string;
+  theme?: string;
+  moves: string[]; // SAN
+}
+
+const RESULT_TOKENS = ['1-0', '0-1', '1/2-1/2', '*'];
+
+// Each format loses its position in its own way
+const MISSING_POSITION: Record<RawEntry['format'], string> = {
+  pgn: 'Missing position ([FEN] tag)',
+  epd: 'Not an EPD position line',
+};
+
+function isPuzzleTheme(theme: string | undefined): theme is PuzzleTheme {
+  return !!theme && theme in puzzleThemeLabels;
+}
+
+/**
+ * Checks an entry's position and moves with chess.js and turns it into a Puzzle.
+ * Returns the reason as a string when the entry can't be used.
+ */
+function buildPuzzle(raw: RawEntry, index: number, options: ImportOptions): Puzzle | string {
+  if (!raw.fen) return MISSING_POSITION[raw.format];
+
+  const fenCheck = validateFen(raw.fen);
+  if (!fenCheck.ok) return `Invalid position: ${fenCheck.error}`;
+
+  const game = new Chess(raw.fen);
+  if (game.turn() !== 'w') return 'Black to move (puzzles are played as White)';
+  if (raw.moves.length === 0) return 'No solution moves';
+  if (raw.moves.length % 2 === 0) return "Solution must end with the student's move";
+
+  const solution: string[] = [];
+  for (const [ply, san] of raw.moves.entries()) {
+    try {
+      const move = game.move(san);
+      solution.push(`${move.from}${move.to}${move.promotion || ''}`);
+    } catch {
+      return `Illegal move "${san}" at ply ${ply + 1}`;
+    }
+  }
+
+  if ((options.requireCheckmate ?? true) && !game.isCheckmate()) {
+    return 'Solution does not end in checkmate';
+  }
+
+  return {
+    id: `${options.idPrefix || 'imported'}-${index + 1}`,
+    title: raw.title || `Puzzle ${index + 1}`,
+    theme: isPuzzleTheme(raw.theme) ? raw.theme : (options.defaultTheme || 'checkmate'),
+    fen: raw.fen,
+    solution,
+  };
+}
+
+function collect(entries: RawEntry[], options: ImportOptions): ImportResult {
+  const result: ImportResult = { puzzles: [], rejected: [] };
+
+  entries.forEach((raw, index) => {
+    const built = buildPuzzle(raw, index, options);
+    if (typeof built === 'string') {
+      result.rejected.push({ entry: index + 1, label: raw.label, reason: built });
+    } else {
+      result.puzzles.push(built);
+    }
+  });
+
+  return result;
+}
+
+// ============================================
+// PGN
+// ============================================
+
+function splitPgnGames(text: string): string[][] {
+  const games: string[][] = [];
+  let current: string[] = [];
+  let seenMoves = false;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    if (!line) continue;
+
+    const isHeader = line.startsWith('[');
+    if (isHeader && seenMoves) {
+      games.push(current);
+      current = [];
+      seenMoves = false;
+    }
+    if (!isHeader) seenMoves = true;
+    current.push(line);
+  }
+
+  if (current.length > 0) games.push(current);
+  return games;
+}
+
+function stripVariations(movetext: string): string {
+  let depth = 0;
+  let out = '';
+  for (const ch of movetext) {
+    if (ch === '(') depth++;
+    else if (ch === ')') depth = Math.max(0, depth - 1);
+    else if (depth === 0) out += ch;
+  }
+  return out;
+}
+
+export function parsePgnMoves(movetext: string): string[] {
+  const cleaned = stripVariations(movetext.replace(/\{[^}]*\}/g, ' ').replace(/;[^\n]*/g, ' '));
+
+  return cleaned
+    .split(/\s+/)
+    .map((token) => token.replace(/^\d+\.+/, '').replace(/[!?]+$/, ''))
+    .filter((token) => token && !token.startsWith('$') && !RESULT_TOKENS.includes(token));
+}
+
+export function importPgn(text: string, options: ImportOptions = {}): ImportResult {
+  const entries = splitPgnGames(text).map((lines): RawEntry => {
+    const headers: Record<string, string> = {};
+    const movetext: string[] = [];
+
+    lines.forEach((line) => {
+      const header = line.match(/^\[(\w+)\s+"(.*)"\]$/);
+      if (header) {
+        headers[header[1]] = header[2];
+      } else {
+        movetext.push(line);
+      }
+    });
+
+    const title = headers.Event && headers.Event !== '?' ? headers.Event : undefined;
+    return {
+      format: 'pgn',
+      label: title || lines[0],
+      fen: headers.FEN,
+      title,
+      theme: headers.Theme,
+      moves: parsePgnMoves(movetext.join('\n')),
+    };
+  });
+
+  return collect(entries, options);
+}
+
+// ============================================
+// EPD
+// ============================================
+
+function parseEpdLine(line: string): RawEntry {
+  const fields = line.split(/\s+/);
+  const fen = fields.length >= 4 ? `${fields.slice(0, 4).join(' ')} 0 1` : undefined;
+
+  const opcodes: Record<string, string> = {};
+  fields.slice(4).join(' ').split(';').forEach((operation) => {
+    const match = operation.trim().match(/^(\w+)\s+(.*)$/);
+    if (match) {
+      opcodes[match[1]] = match[2].trim().replace(/^"(.*)"$/, '$1');
+    }
+  });
+
+  // "bm" may list several best moves; the first one becomes the solution
+  const bestMove = opcodes.bm?.split(/\s+/)[0];
+
+  return {
+    format: 'epd',
+    label: opcodes.id || line.slice(0, 40),
+    fen,
+    title: opcodes.id,
+    theme: opcodes.c0,
+    moves: bestMove ? [bestMove.replace(/[!?]+$/, '')] : [],
+  };
+}
+
+export function importEpd(text: string, options: ImportOptions = {}): ImportResult {
+  const entries = text
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line) => line && !line.startsWith('#'))
+    .map(parseEpdLine);
+
+  return collect(entries, options);
+}
+
+// ============================================
+// Lesson objectives
+// ============================================
+
+/**
+ * Turns a puzzle into lesson objectives: one per student move, the first one
+ * setting up the board and each one scripting the opponent's answer.
+ */
+export function puzzleToLessonObjectives(puzzle: Puzzle): LessonObjective[] {
+  const objectives: LessonObjective[] = [];
+
+  for (let i = 0; i < puzzle.solution.length; i += 2) {
+    const reply = puzzle.solution[i + 1];
+    objectives.push({
+      id: `${puzzle.id}-move-${i / 2 + 1}`,
+      description: i === 0 ? `${puzzle.title}: find the best move!` : 'Keep going! Find the next move',
+      fen: i === 0 ? puzzle.fen : undefined,
+      validator: { type: 'move-piece', requiredMove: puzzle.solution[i] },
+      // An empty script still marks the objective as scripted, so wrong moves are undone
+      opponentReplies: reply ? [reply] : [],
+    });
+  }
+
+  return objectives;
+}
@@ -0,0 +1,76 @@
+export type PuzzleTheme =
+  | 'checkmate'
+  | 'back-rank'
+  | 'smothered-mate'
+  | 'scholars-mate'
+  | 'king-and-rook'
+  | 'queen-and-rook'
+  | 'sacrifice';
+
+export interface Puzzle {
+  id: string;
+  title: string;
+  theme: PuzzleTheme;
+  fen: string;
+  solution: string[]; // Student and opponent moves, alternating, in from-to form ("d1d8", "e7e8q")
+}
+
+export const puzzleThemeLabels: Record<PuzzleTheme, string> = {
+  'checkmate': 'Find the Checkmate',
+  'back-rank': 'Back Rank',
+  'smothered-mate': 'Smothered Mate',
+  'scholars-mate': "Scholar's Mate",
+  'king-and-rook': 'King and Rook',
+  'queen-and-rook': 'Queen and Rook Team',
+  'sacrifice': 'Sneaky Sacrifice',
+};
+
+export const puzzles: Puzzle[] = [
+  {
+    id: 'back-rank-1',
+    title: 'The Sleepy King',
+    theme: 'back-rank',
+    fen: '6k1/5ppp/8/8/8/8/5PPP/3R2K1 w - - 0 1',
+    solution: ['d1d8'],
+  },
+  {
+    id: 'king-and-rook-1',
+    title: 'Corner Trap',
+    theme: 'king-and-rook',
+    fen: '7k/8/6K1/8/8/8/8/R7 w - - 0 1',
+    solution: ['a1a8'],
+  },
+  {
+    id: 'scholars-mate-1',
+    title: 'Quick Attack',
+    theme: 'scholars-mate',
+    fen: 'r1bqkbnr/pppp1ppp/2n5/4p3/2B1P3/5Q2/PPPP1PPP/RNB1K1NR w KQkq - 0 1',
+    solution: ['f3f7'],
+  },
+  {
+    id: 'smothered-mate-1',
+    title: 'No Room to Breathe',
+    theme: 'smothered-mate',
+    fen: '6rk/6pp/8/6N1/8/8/8/7K w - - 0 1',
+    solution: ['g5f7'],
+  },
+  {
+    id: 'queen-and-rook-1',
+    title: 'Close the Door',
+    theme: 'queen-and-rook',
+    // The rook shuts the 7th rank and the queen guards h8, so the king can only go to f8
+    fen: '6k1/8/8/8/8/8/1Q6/R5K1 w - - 0 1',
+    solution: ['a1a7', 'g8f8', 'b2b8'],
+  },
+  {
+    id: 'sacrifice-1',
+    title: 'Give to Get',
+    theme: 'sacrifice',
+    fen: '2r3k1/5ppp/8/8/8/8/3R1PPP/3R2K1 w - - 0 1',
+    solution: ['d2d8', 'c8d8', 'd1d8'],
+  },
+];
+
+export function getMateInMoves(puzzle: Puzzle): number {
+  return Math.ceil(puzzle.solution.length / 2);
+}
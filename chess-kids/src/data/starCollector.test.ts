@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+  starLevels,
+  getStarMoves,
+  getMinimumMoves,
+  createStarGame,
+  handleStarMove,
+  isStarGameComplete,
+  getStarReward,
+  getUnlockedStarLevels,
+  FINISH_STARS,
+  OPTIMAL_BONUS_STARS,
+  type StarLevel,
+} from './starCollector';
+
+const rookDetour: StarLevel = { id: 99, piece: 'r', start: 'a1', stars: ['a8'], blockers: ['a4'] };
+
+describe('starCollector', () => {
+  describe('getStarMoves', () => {
+    it('stops sliding pieces in front of a blocker', () => {
+      const moves = getStarMoves('r', 'a1', ['a4']);
+      expect(moves).toContain('a3');
+      expect(moves).not.toContain('a4');
+      expect(moves).not.toContain('a5');
+      expect(moves).toContain('h1');
+    });
+
+    it('lets the knight jump over blockers but not land on them', () => {
+      expect(getStarMoves('n', 'b1', ['b2', 'c2', 'd2', 'c3']).sort()).toEqual(['a3']);
+    });
+  });
+
+  describe('getMinimumMoves', () => {
+    it('finds the shortest route around a blocker', () => {
+      expect(getMinimumMoves(rookDetour)).toBe(3);
+      expect(getMinimumMoves({ ...rookDetour, blockers: [] })).toBe(1);
+    });
+
+    it('returns null when a star can never be reached', () => {
+      // A bishop on a dark square can't reach a light one
+      expect(getMinimumMoves({ id: 98, piece: 'b', start: 'c1', stars: ['c2'], blockers: [] })).toBeNull();
+    });
+
+    it('can solve every built-in level', () => {
+      starLevels.forEach((level) => {
+        expect(level.stars.some((star) => level.blockers.includes(star))).toBe(false);
+        expect(getMinimumMoves(level)).toBeGreaterThan(0);
+      });
+    });
+  });
+
+  describe('playing a level', () => {
+    it('rejects moves the piece cannot make', () => {
+      expect(handleStarMove(rookDetour, createStarGame(rookDetour), 'a8')).toBeNull();
+      expect(handleStarMove(rookDetour, createStarGame(rookDetour), 'b2')).toBeNull();
+    });
+
+    it('gives bonus stars for the optimal route', () => {
+      let game = createStarGame(rookDetour);
+      for (const square of ['b1', 'b8', 'a8']) {
+        game = handleStarMove(rookDetour, game, square)!;
+      }
+
+      expect(isStarGameComplete(rookDetour, game)).toBe(true);
+      expect(game.moves).toBe(3);
+      expect(getStarReward(rookDetour, game)).toBe(FINISH_STARS + OPTIMAL_BONUS_STARS);
+    });
+
+    it('gives only the finishing star for a longer route', () => {
+      let game = createStarGame(rookDetour);
+      for (const square of ['h1', 'h8', 'b8', 'a8']) {
+        game = handleStarMove(rookDetour, game, square)!;
+      }
+
+      expect(isStarGameComplete(rookDetour, game)).toBe(true);
+      expect(getStarReward(rookDetour, game)).toBe(FINISH_STARS);
+    });
+
+    it('gives nothing before every star is collected', () => {
+      const game = handleStarMove(rookDetour, createStarGame(rookDetour), 'b1')!;
+      expect(getStarReward(rookDetour, game)).toBe(0);
+    });
+  });
+
+  it('unlocks levels for the piece lessons that are done', () => {
+    expect(getUnlockedStarLevels([])).toEqual([]);
+    expect(getUnlockedStarLevels([3]).every((level) => level.piece === 'n')).toBe(true);
+    expect(getUnlockedStarLevels([3, 4, 5, 6])).toHaveLength(starLevels.length);
+  });
+});
@@ -0,0 +1,115 @@
+import { Chess, type Square } from 'chess.js';
+
+export type StarPiece = 'n' | 'r' | 'b' | 'q';
+
+export interface StarLevel {
+  id: number;
+  piece: StarPiece;
+  start: string;
+  stars: string[];
+  blockers: string[]; // Squares the piece can't land on or slide through
+}
+
+export interface StarGameState {
+  square: string;
+  collected: string[];
+  moves: number;
+}
+
+export const STAR_ACTIVITY = 'stars';
+export const FINISH_STARS = 1;
+export const OPTIMAL_BONUS_STARS = 2;
+
+// The lesson that teaches each piece; its levels unlock once it is completed
+export const PIECE_LESSONS: Record<StarPiece, number> = { n: 3, r: 4, b: 5, q: 6 };
+
+export const starLevels: StarLevel[] = [
+  { id: 1, piece: 'n', start: 'b1', stars: ['c3', 'e4', 'd6'], blockers: ['d2', 'e5'] },
+  { id: 2, piece: 'r', start: 'a1', stars: ['a8', 'h8', 'h1'], blockers: ['a5', 'e1', 'e8'] },
+  { id: 3, piece: 'b', start: 'c1', stars: ['a3', 'f4', 'h6'], blockers: ['e3', 'c5'] },
+  { id: 4, piece: 'q', start: 'd1', stars: ['a4', 'd8', 'h4', 'h8'], blockers: ['d5', 'f3', 'b3'] },
+  { id: 5, piece: 'n', start: 'a1', stars: ['b3', 'e2', 'f5', 'h8'], blockers: ['c2', 'd4', 'g6'] },
+  { id: 6, piece: 'r', start: 'd4', stars: ['a1', 'h2', 'b7', 'g8'], blockers: ['d2', 'd6', 'b4', 'f4'] },
+];
+
+/**
+ * Squares the piece can move to in one move. Blockers are stood in for by
+ * friendly pieces, so chess.js stops sliders in front of them and never
+ * lets the piece land on one.
+ */
+export function getStarMoves(piece: StarPiece, from: string, blockers: string[]): string[] {
+  const game = new Chess('8/8/8/8/8/8/8/8 w - - 0 1', { skipValidation: true });
+  game.put({ type: piece, color: 'w' }, from as Square);
+  blockers.forEach((square) => game.put({ type: 'b', color: 'w' }, square as Square));
+  return game.moves({ square: from as Square, verbose: true }).map((move) => move.to);
+}
+
+/**
+ * Fewest moves that collect every star, found with a breadth-first search
+ * over (square, stars collected) states. Returns null if a star can't be reached.
+ */
+export function getMinimumMoves(level: StarLevel): number | null {
+  const allCollected = (1 << level.stars.length) - 1;
+  const starBit = (square: string) => {
+    const index = level.stars.indexOf(square);
+    return index === -1 ? 0 : 1 << index;
+  };
+
+  const startMask = starBit(level.start);
+  if (startMask === allCollected) return 0;
+
+  const seen = new Set([`${level.start}:${startMask}`]);
+  let frontier = [{ square: level.start, mask: startMask }];
+
+  for (let depth = 1; frontier.length > 0; depth++) {
+    const next: typeof frontier = [];
+    for (const { square, mask } of frontier) {
+      for (const to of getStarMoves(level.piece, square, level.blockers)) {
+        const nextMask = mask | starBit(to);
+        if (nextMask === allCollected) return depth;
+
+        const key = `${to}:${nextMask}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        next.push({ square: to, mask: nextMask });
+      }
+    }
+    frontier = next;
+  }
+
+  return null;
+}
+
+export function createStarGame(level: StarLevel): StarGameState {
+  return {
+    square: level.start,
+    collected: level.stars.filter((star) => star === level.start),
+    moves: 0,
+  };
+}
+
+/** Plays a move, or returns null when the piece can't go there. */
+export function handleStarMove(level: StarLevel, state: StarGameState, to: string): StarGameState | null {
+  if (!getStarMoves(level.piece, state.square, level.blockers).includes(to)) return null;
+
+  const isNewStar = level.stars.includes(to) && !state.collected.includes(to);
+  return {
+    square: to,
+    collected: isNewStar ? [...state.collected, to] : state.collected,
+    moves: state.moves + 1,
+  };
+}
+
+export function isStarGameComplete(level: StarLevel, state: StarGameState): boolean {
+  return level.stars.every((star) => state.collected.includes(star));
+}
+
+/** Stars earned for a finished level: one for finishing, plus a bonus for the best possible route. */
+export function getStarReward(level: StarLevel, state: StarGameState): number {
+  if (!isStarGameComplete(level, state)) return 0;
+  return state.moves === getMinimumMoves(level) ? FINISH_STARS + OPTIMAL_BONUS_STARS : FINISH_STARS;
+}
+
+export function getUnlockedStarLevels(completedLessons: number[]): StarLevel[] {
+  return starLevels.filter((level) => completedLessons.includes(PIECE_LESSONS[level.piece]));
+}
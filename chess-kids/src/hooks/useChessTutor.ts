@@ -14,6 +14,7 @@ interface UseChessTutorReturn {
     startConversation: (context: GameContext) => Promise<void>;
     encourageObjective: (objectiveDescription: string, isLessonComplete: boolean) => void;
     isLoading: boolean;
+    streamingMessage: string | null; // Gloop's reply so far while it streams in
     clearChat: () => void;
     latestResponse: TutorResponse | null;
 }
@@ -21,6 +22,7 @@ interface UseChessTutorReturn {
 export const useChessTutor = (): UseChessTutorReturn => {
     const [messages, setMessages] = useState<ChatMessage[]>([]);
     const [isLoading, setIsLoading] = useState(false);
+    const [streamingMessage, setStreamingMessage] = useState<string | null>(null);
     const [latestResponse, setLatestResponse] = useState<TutorResponse | null>(null);
     const [currentContext, setCurrentContext] = useState<GameContext | null>(null);
 
@@ -28,9 +30,11 @@ export const useChessTutor = (): UseChessTutorReturn => {
     const startConversation = useCallback(async (context: GameContext) => {
         setIsLoading(true);
         setCurrentContext(context);
+        setStreamingMessage('');
 
         try {
-            const response = await tutorService.chat([], context);
+            // Structured fields (mood, arrows, facts) only arrive with the finished response
+            const response = await tutorService.chat([], context, setStreamingMessage);
 
             const assistantMessage: ChatMessage = {
                 role: 'assistant',
@@ -49,6 +53,7 @@ export const useChessTutor = (): UseChessTutorReturn => {
             }]);
         } finally {
             setIsLoading(false);
+            setStreamingMessage(null);
         }
     }, []);
 
@@ -64,9 +69,10 @@ export const useChessTutor = (): UseChessTutorReturn => {
         const updatedMessages = [...messages, newUserMessage];
         setMessages(updatedMessages);
         setIsLoading(true);
+        setStreamingMessage('');
 
         try {
-            const response = await tutorService.chat(updatedMessages, ctx || undefined);
+            const response = await tutorService.chat(updatedMessages, ctx || undefined, setStreamingMessage);
 
             const assistantMessage: ChatMessage = {
                 role: 'assistant',
@@ -85,6 +91,7 @@ export const useChessTutor = (): UseChessTutorReturn => {
             }]);
         } finally {
             setIsLoading(false);
+            setStreamingMessage(null);
         }
     }, [messages, currentContext]);
 
@@ -131,6 +138,7 @@ export const useChessTutor = (): UseChessTutorReturn => {
         startConversation,
         encourageObjective,
         isLoading,
+        streamingMessage,
         clearChat,
         latestResponse
     };
@@ -0,0 +1,19 @@
+import { useState, useCallback } from 'react';
+import type { UseStudentMemoryReturn } from './useStudentMemory';
+
+/**
+ * Shakes the board for a wrong answer and records the mistake so Gloop knows about it
+ */
+export function useMistakeFeedback(memory: Pick<UseStudentMemoryReturn, 'recordTutorInteraction'>) {
+    const [isShaking, setIsShaking] = useState(false);
+
+    const handleMistake = useCallback((context: string) => {
+        setIsShaking(true);
+        setTimeout(() => setIsShaking(false), 500);
+
+        // Record the mistake so the AI knows
+        memory.recordTutorInteraction('message', `Mistake: ${context}`, 'system');
+    }, [memory]);
+
+    return { isShaking, handleMistake };
+}
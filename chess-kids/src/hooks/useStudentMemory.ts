@@ -1,12 +1,12 @@
 import { useCallback, useMemo } from 'react';
 import { memoryService } from '../services/memory/memoryService';
-import type { AtomicFact, FactCategory, StudentSummary, TieredFact } from '../services/memory/memoryTypes';
+import type { AtomicFact, FactCategory, GameResult, OpponentLevel, StudentSummary, TieredFact } from '../services/memory/memoryTypes';
 
-interface UseStudentMemoryReturn {
+export interface UseStudentMemoryReturn {
     // Facts
     getActiveFacts: () => AtomicFact[];
     getHotAndWarmFacts: () => TieredFact[];
-    addFact: (fact: string, category: FactCategory, source: string) => AtomicFact;
+    addFact: (fact: string, category: FactCategory, source: string, relatedEntities?: string[]) => AtomicFact;
     accessFact: (factId: string) => void;
 
     // Summary
@@ -14,10 +14,16 @@ interface UseStudentMemoryReturn {
     regenerateSummary: () => StudentSummary;
 
     // Sessions
-    startSession: (lessonId: number) => void;
+    startSession: (lessonId: number, activity?: string) => void;
     endSession: () => void;
     recordObjectiveCompleted: (objectiveId: string) => void;
+    recordObjectiveFailed: (objectiveId: string) => void;
     recordTutorInteraction: (type: 'arrow' | 'highlight' | 'message', context: string, response: string) => void;
+    addSessionNote: (note: string) => void;
+
+    // Computer opponent
+    recordGameResult: (result: GameResult, level: number, source: string) => AtomicFact;
+    getOpponentLevel: () => OpponentLevel;
 
     // AI Context
     getContextForAI: () => string;
@@ -34,8 +40,8 @@ export function useStudentMemory(profileId: string | undefined): UseStudentMemor
         return memoryService.getHotAndWarmFacts(safeProfileId);
     }, [safeProfileId]);
 
-    const addFact = useCallback((fact: string, category: FactCategory, source: string) => {
-        return memoryService.addFact(safeProfileId, fact, category, source);
+    const addFact = useCallback((fact: string, category: FactCategory, source: string, relatedEntities?: string[]) => {
+        return memoryService.addFact(safeProfileId, fact, category, source, relatedEntities);
     }, [safeProfileId]);
 
     const accessFact = useCallback((factId: string) => {
@@ -50,8 +56,8 @@ export function useStudentMemory(profileId: string | undefined): UseStudentMemor
         return memoryService.regenerateSummary(safeProfileId);
     }, [safeProfileId]);
 
-    const startSession = useCallback((lessonId: number) => {
-        memoryService.startSession(safeProfileId, lessonId);
+    const startSession = useCallback((lessonId: number, activity?: string) => {
+        memoryService.startSession(safeProfileId, lessonId, activity);
     }, [safeProfileId]);
 
     const endSession = useCallback(() => {
@@ -62,6 +68,10 @@ export function useStudentMemory(profileId: string | undefined): UseStudentMemor
         memoryService.recordObjectiveCompleted(safeProfileId, objectiveId);
     }, [safeProfileId]);
 
+    const recordObjectiveFailed = useCallback((objectiveId: string) => {
+        memoryService.recordObjectiveFailed(safeProfileId, objectiveId);
+    }, [safeProfileId]);
+
     const recordTutorInteraction = useCallback((
         type: 'arrow' | 'highlight' | 'message',
         context: string,
@@ -70,6 +80,18 @@ export function useStudentMemory(profileId: string | undefined): UseStudentMemor
         memoryService.recordTutorInteraction(safeProfileId, type, context, response);
     }, [safeProfileId]);
 
+    const addSessionNote = useCallback((note: string) => {
+        memoryService.addSessionNote(safeProfileId, note);
+    }, [safeProfileId]);
+
+    const recordGameResult = useCallback((result: GameResult, level: number, source: string) => {
+        return memoryService.recordGameResult(safeProfileId, result, level, source);
+    }, [safeProfileId]);
+
+    const getOpponentLevel = useCallback(() => {
+        return memoryService.getOpponentLevel(safeProfileId);
+    }, [safeProfileId]);
+
     const getContextForAI = useCallback(() => {
         return memoryService.getContextForAI(safeProfileId);
     }, [safeProfileId]);
@@ -84,7 +106,11 @@ export function useStudentMemory(profileId: string | undefined): UseStudentMemor
         startSession,
         endSession,
         recordObjectiveCompleted,
+        recordObjectiveFailed,
         recordTutorInteraction,
+        addSessionNote,
+        recordGameResult,
+        getOpponentLevel,
         getContextForAI,
     }), [
         getActiveFacts,
@@ -96,7 +122,11 @@ export function useStudentMemory(profileId: string | undefined): UseStudentMemor
         startSession,
         endSession,
         recordObjectiveCompleted,
+        recordObjectiveFailed,
         recordTutorInteraction,
+        addSessionNote,
+        recordGameResult,
+        getOpponentLevel,
         getContextForAI,
     ]);
 }
@@ -0,0 +1,202 @@
+import { useState, useEffect, useCallback } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft } from 'lucide-react';
+import { ExploreBoard } from '../components/ExploreBoard';
+import { StarCounter } from '../components/StarCounter';
+import {
+  COORDINATE_ACTIVITY,
+  COORDINATE_ROUND_LENGTH,
+  createCoordinateRound,
+  handleCoordinateTap,
+  getTargetSquare,
+  getRoundTime,
+  getStruggles,
+  describeStruggles,
+  formatTime,
+  type CoordinateRound,
+} from '../data/coordinateTrainer';
+import { useProfile } from '../hooks/useProfile';
+import { useStudentMemory } from '../hooks/useStudentMemory';
+import { useMistakeFeedback } from '../hooks/useMistakeFeedback';
+
+const CLOCK_TICK_MS = 100;
+const EMPTY_SQUARES = new Set<string>();
+
+export function CoordinatesPage() {
+  const navigate = useNavigate();
+  const { currentProfile, currentProgress, addStars, recordBestTime } = useProfile();
+
+  const [round, setRound] = useState<CoordinateRound | null>(null);
+  const [now, setNow] = useState(0);
+  const [isNewBest, setIsNewBest] = useState(false);
+
+  const memory = useStudentMemory(currentProfile?.id);
+  const { isShaking, handleMistake } = useMistakeFeedback(memory);
+
+  useEffect(() => {
+    if (!currentProfile) {
+      navigate('/profiles');
+    }
+  }, [currentProfile, navigate]);
+
+  useEffect(() => {
+    memory.startSession(0, COORDINATE_ACTIVITY);
+    return () => {
+      memory.endSession();
+    };
+  }, [memory]);
+
+  // Keep the clock running until the round is over
+  const isRunning = !!round && !round.finishedAt;
+  useEffect(() => {
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), CLOCK_TICK_MS);
+    return () => clearInterval(interval);
+  }, [isRunning]);
+
+  const startRound = useCallback(() => {
+    const startedAt = Date.now();
+    setRound(createCoordinateRound(startedAt));
+    setNow(startedAt);
+    setIsNewBest(false);
+  }, []);
+
+  // Tell Gloop about files or ranks the student keeps missing, once per fact
+  const recordStruggles = useCallback((finished: CoordinateRound) => {
+    const knownEntities = new Set(
+      memory.getActiveFacts()
+        .filter((fact) => fact.category === 'skill-gap')
+        .flatMap((fact) => fact.relatedEntities)
+    );
+
+    describeStruggles(getStruggles(finished)).forEach(({ fact, entities }) => {
+      if (entities.every((entity) => knownEntities.has(entity))) return;
+      memory.addFact(fact, 'skill-gap', COORDINATE_ACTIVITY, entities);
+    });
+  }, [memory]);
+
+  const finishRound = useCallback((finished: CoordinateRound) => {
+    const time = getRoundTime(finished) ?? 0;
+    setNow(finished.finishedAt ?? 0);
+    setIsNewBest(recordBestTime(COORDINATE_ACTIVITY, time));
+    addStars(1);
+
+    memory.recordObjectiveCompleted(`${COORDINATE_ACTIVITY}-round`);
+    memory.addSessionNote(
+      `Coordinate round: ${COORDINATE_ROUND_LENGTH} squares in ${formatTime(time)} with ${finished.misses} misses`
+    );
+    recordStruggles(finished);
+  }, [recordBestTime, addStars, memory, recordStruggles]);
+
+  const onSquareTap = useCallback((square: string) => {
+    if (!round || round.finishedAt) return;
+
+    const result = handleCoordinateTap(round, square, Date.now());
+    setRound(result.round);
+
+    if (!result.correct) {
+      handleMistake(`Tap ${getTargetSquare(round)} (tapped ${square})`);
+    } else if (result.round.finishedAt) {
+      finishRound(result.round);
+    }
+  }, [round, handleMistake, finishRound]);
+
+  if (!currentProfile) return null;
+
+  const bestTime = currentProgress.bestTimes?.[COORDINATE_ACTIVITY];
+  const elapsed = round ? (getRoundTime(round) ?? Math.max(0, now - round.startedAt)) : 0;
+
+  return (
+    <div className="lesson-page coordinates-page">
+      <header className="lesson-header">
+        <button className="back-button" onClick={() => navigate('/')} aria-label="Back to home">
+          <ArrowLeft size={24} />
+        </button>
+        <h1>🎯 Square Hunt</h1>
+        <StarCounter />
+      </header>
+
+      <div className="lesson-content">
+        <div className={`board-section ${isShaking ? 'shake' : ''}`}>
+          <ExploreBoard
+            tappedSquares={round?.lessonState.tappedSquares ?? EMPTY_SQUARES}
+            tappedCorners={EMPTY_SQUARES}
+            onSquareTap={onSquareTap}
+            boardSize={Math.min(400, window.innerWidth - 40)}
+          />
+        </div>
+
+        <div className="objectives-section">
+          {!round ? (
+            <>
+              <h3>Find the squares!</h3>
+              <p className="coordinate-help">
+                Every square has a name: its letter (a to h) and its number (1 to 8).
+                Tap {COORDINATE_ROUND_LENGTH} squares as fast as you can!
+              </p>
+              <motion.button
+                className="start-button"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={startRound}
+              >
+                Start!
+              </motion.button>
+            </>
+          ) : round.finishedAt ? (
+            <>
+              <h3>{isNewBest ? '🏆 New best time!' : '🎉 Round done!'}</h3>
+              <p className="coordinate-time">{formatTime(elapsed)}</p>
+              <p className="progress-hint">Misses: {round.misses}</p>
+              <motion.button
+                className="start-button"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={startRound}
+              >
+                Play again
+              </motion.button>
+            </>
+          ) : (
+            <>
+              <motion.p
+                key={round.asked}
+                className="coordinate-target"
+                initial={{ scale: 0.5, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+              >
+                Tap {getTargetSquare(round)}!
+              </motion.p>
+              <p className="coordinate-time">{formatTime(elapsed)}</p>
+              <p className="progress-hint">
+                Square {round.asked} of {COORDINATE_ROUND_LENGTH}
+              </p>
+            </>
+          )}
+          {bestTime !== undefined && (
+            <p className="progress-hint">Best time: {formatTime(bestTime)}</p>
+          )}
+        </div>
+      </div>
+
+      <style>{`
+        .coordinate-help {
+          margin: 0.5rem 0 1.5rem;
+          font-size: 1.1rem;
+        }
+        .coordinate-target {
+          font-size: 2.5rem;
+          font-weight: bold;
+          color: var(--secondary);
+          margin: 0.5rem 0;
+        }
+        .coordinate-time {
+          font-size: 1.5rem;
+          font-weight: bold;
+          font-variant-numeric: tabular-nums;
+        }
+      `}</style>
+    </div>
+  );
+}
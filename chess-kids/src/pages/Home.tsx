@@ -2,14 +2,17 @@ import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { LessonCard } from '../components/LessonCard';
+import { ActivityCard } from '../components/ActivityCard';
 import { StarCounter } from '../components/StarCounter';
 import { ProfileBadge } from '../components/ProfileBadge';
-import { lessons } from '../data/lessons';
+import { lessonBranches, getBranchLessons, getLessonStatus, getLockReason } from '../data/lessonGraph';
+import { PIECE_LESSONS } from '../data/starCollector';
+import { PAWN_WARS_LESSON } from '../data/pawnWars';
 import { useProfile } from '../hooks/useProfile';
 
 export function Home() {
   const navigate = useNavigate();
-  const { currentProfile } = useProfile();
+  const { currentProfile, currentProgress } = useProfile();
 
   useEffect(() => {
     if (!currentProfile) {
@@ -42,21 +45,67 @@ export function Home() {
         Learn chess step by step!
       </motion.p>
 
-      <div className="lessons-grid">
-        {lessons.map((lesson, index) => (
-          <motion.div
-            key={lesson.id}
-            initial={{ opacity: 0, y: 50 }}
-            animate={{ opacity: 1, y: 0 }}
-            transition={{ delay: 0.1 * index }}
-          >
-            <LessonCard
-              lesson={lesson}
-              onClick={() => navigate(`/lesson/${lesson.id}`)}
-            />
-          </motion.div>
-        ))}
-      </div>
+      {/* Each branch opens as soon as its own prerequisites are done, so several can be in progress at once */}
+      {lessonBranches.map((branch, branchIndex) => (
+        <section key={branch.id} className="lesson-branch">
+          <h2>{branch.icon} {branch.title}</h2>
+          <div className="lessons-grid">
+            {getBranchLessons(branch.id).map((lesson, index) => (
+              <motion.div
+                key={lesson.id}
+                initial={{ opacity: 0, y: 50 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: 0.1 * (branchIndex + index) }}
+              >
+                <LessonCard
+                  lesson={lesson}
+                  status={getLessonStatus(lesson, currentProgress)}
+                  lockReason={getLockReason(lesson, currentProgress)}
+                  onClick={() => navigate(`/lesson/${lesson.id}`)}
+                />
+              </motion.div>
+            ))}
+          </div>
+        </section>
+      ))}
+
+      <section className="activities-section">
+        <h2>More Fun</h2>
+        <div className="lessons-grid">
+          <ActivityCard
+            icon="🧩"
+            title="Puzzle Time"
+            description="Find the checkmate hiding in each puzzle"
+            isUnlocked={currentProgress.completedLessons.includes(9)}
+            lockedHint="Finish the Checkmate! lesson first"
+            onClick={() => navigate('/puzzles')}
+          />
+          <ActivityCard
+            icon="🎯"
+            title="Square Hunt"
+            description="Find squares by their names, as fast as you can"
+            isUnlocked={currentProgress.completedLessons.includes(1)}
+            lockedHint="Finish The Chess Kingdom lesson first"
+            onClick={() => navigate('/coordinates')}
+          />
+          <ActivityCard
+            icon="⭐"
+            title="Star Hunt"
+            description="Collect every star with one piece in as few moves as you can"
+            isUnlocked={currentProgress.completedLessons.includes(PIECE_LESSONS.n)}
+            lockedHint="Finish The Jumping Knight lesson first"
+            onClick={() => navigate('/stars')}
+          />
+          <ActivityCard
+            icon="♟️"
+            title="Pawn Wars"
+            description="A race with only pawns against the computer or a friend"
+            isUnlocked={currentProgress.completedLessons.includes(PAWN_WARS_LESSON)}
+            lockedHint="Finish The Brave Pawn lesson first"
+            onClick={() => navigate('/pawn-wars')}
+          />
+        </div>
+      </section>
     </div>
   );
 }
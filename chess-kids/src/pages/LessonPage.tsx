@@ -1,32 +1,61 @@
-import { useState, useEffect, useCallback, useRef } from 'react';
+import { useState, useEffect, useCallback, useRef, useMemo } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { motion } from 'framer-motion';
 import { ArrowLeft, CheckCircle } from 'lucide-react';
-import { ChessBoard } from '../components/ChessBoard';
+import { DEFAULT_POSITION } from 'chess.js';
+import { ChessBoard, type MoveDetails } from '../components/ChessBoard';
 import { ExploreBoard } from '../components/ExploreBoard';
+import { SetupBoard } from '../components/SetupBoard';
 import { NumberPicker } from '../components/NumberPicker';
+import { QuizCard } from '../components/QuizCard';
 import { Celebration } from '../components/Celebration';
+import { GameOverScreen } from '../components/GameOverScreen';
 import { StarCounter } from '../components/StarCounter';
 import { lessons } from '../data/lessons';
+import { getNextLesson } from '../data/lessonGraph';
 import {
   lessonConfigs,
   createInitialLessonState,
   checkObjectiveComplete,
   handleSquareTap,
+  handlePlacePiece,
+  handleRemovePiece,
+  scoreSetup,
   handleMove,
+  undoMove,
   handleAnswer,
+  handleColorAnswer,
+  getNextColorQuizSquare,
+  getSquareColor,
   resetObjectiveState,
+  getObjectiveStartFen,
+  getNextOpponentReply,
+  playOpponentReply,
+  handleOpponentReply,
+  handleGameEnd,
+  getDemoPositions,
+  getCheckLine,
+  isWrongMove,
   type LessonState,
+  type LessonObjective,
+  type GameOutcome,
+  type SquareColor,
 } from '../data/lessonEngine';
 import { useProfile } from '../hooks/useProfile';
 import { useChessTutor } from '../hooks/useChessTutor';
 import { useStudentMemory } from '../hooks/useStudentMemory';
+import { useMistakeFeedback } from '../hooks/useMistakeFeedback';
 import { TutorMascot } from '../components/TutorMascot';
+import { getOpponentOptions, type EngineMove } from '../services/engine/kidEngine';
+import type { GameResult } from '../services/memory/memoryTypes';
+
+const OPPONENT_REPLY_DELAY_MS = 700;
+const DEMO_STEP_MS = 1200;
 
 export function LessonPage() {
   const { id } = useParams<{ id: string }>();
   const navigate = useNavigate();
-  const { currentProfile, addStars, completeLesson } = useProfile();
+  const { currentProfile, currentProgress, addStars, completeLesson } = useProfile();
 
   const lessonId = parseInt(id || '1');
   const lesson = lessons.find((l) => l.id === lessonId);
@@ -35,18 +64,33 @@ export function LessonPage() {
   const [lessonState, setLessonState] = useState<LessonState>(createInitialLessonState);
   const [showCelebration, setShowCelebration] = useState(false);
   const [showStory, setShowStory] = useState(true);
-  const [currentFen, setCurrentFen] = useState<string>(config?.fen || 'start');
+  const [boardFen, setBoardFen] = useState<string | null>(() => config ? getObjectiveStartFen(config, 0) : null);
+  const [boardVersion, setBoardVersion] = useState(0);
+  const [isOpponentTurn, setIsOpponentTurn] = useState(false);
+  const [isDemoPlaying, setIsDemoPlaying] = useState(false);
+  const [currentFen, setCurrentFen] = useState<string>(boardFen || DEFAULT_POSITION);
   const [lastMove, setLastMove] = useState<string | undefined>(undefined);
-  const [isShaking, setIsShaking] = useState(false);
 
   // Track previous move count to detect new moves
   const prevMoveCount = useRef(0);
+  // Position before the student's latest move, so scripted objectives can undo a wrong move
+  const fenBeforeMove = useRef<string>(currentFen);
+  const stateBeforeMove = useRef<LessonState>(lessonState);
+  const replyTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => {
+    return () => clearTimeout(replyTimer.current);
+  }, []);
 
   // Memory system
   const memory = useStudentMemory(currentProfile?.id);
 
+  // Computer opponent strength, picked from the student's game history before each game
+  const [opponentLevel, setOpponentLevel] = useState(() => memory.getOpponentLevel());
+  const [finishedGame, setFinishedGame] = useState<GameOutcome | null>(null);
+
   // AI Tutor
-  const { messages, sendMessage, startConversation, encourageObjective, isLoading, clearChat, latestResponse } = useChessTutor();
+  const { messages, sendMessage, startConversation, encourageObjective, isLoading, streamingMessage, clearChat, latestResponse } = useChessTutor();
 
   useEffect(() => {
     if (!currentProfile) {
@@ -81,16 +125,65 @@ export function LessonPage() {
 
   const currentObjective = config?.objectives[lessonState.currentObjectiveIndex];
 
-  const handleMistake = useCallback((context: string) => {
-    setIsShaking(true);
-    setTimeout(() => setIsShaking(false), 500);
+  const { isShaking, handleMistake } = useMistakeFeedback(memory);
+
+  // Put a fresh position on the board (remounts it even if the FEN is unchanged)
+  const resetBoard = useCallback((fen: string) => {
+    clearTimeout(replyTimer.current);
+    setIsOpponentTurn(false);
+    setIsDemoPlaying(false);
+    setLessonState((prev) => ({ ...prev, gameOutcome: undefined }));
+    setBoardFen(fen);
+    setCurrentFen(fen);
+    setLastMove(undefined);
+    setBoardVersion((v) => v + 1);
+  }, []);
 
-    // Record the mistake so the AI knows
-    memory.recordTutorInteraction('message', `Mistake: ${context}`, 'system');
-    
-    // Also add a temporary fact about the struggle if it's specific
-    // memory.addFact(`Struggled with ${context}`, 'skill-gap', 'system');
-  }, [memory]);
+  const playReply = useCallback((reply: string, fen: string, countsForObjective: boolean) => {
+    setIsOpponentTurn(true);
+    replyTimer.current = setTimeout(() => {
+      setIsOpponentTurn(false);
+      const nextFen = playOpponentReply(fen, reply);
+      if (!nextFen) return;
+
+      setBoardFen(nextFen);
+      setCurrentFen(nextFen);
+      setLastMove(reply);
+      if (countsForObjective) {
+        setLessonState((prev) => handleOpponentReply(prev));
+      }
+    }, OPPONENT_REPLY_DELAY_MS);
+  }, []);
+
+  // Animate the objective's demo moves, then set up the board for the student
+  const playDemo = useCallback((objective: LessonObjective) => {
+    const positions = getDemoPositions(objective);
+    if (positions.length === 0 || !objective.fen) return;
+
+    const startFen = objective.fen;
+    resetBoard(positions[0]);
+    setIsDemoPlaying(true);
+
+    const step = (index: number) => {
+      replyTimer.current = setTimeout(() => {
+        if (index < positions.length) {
+          setBoardFen(positions[index]);
+          setCurrentFen(positions[index]);
+          step(index + 1);
+        } else {
+          resetBoard(startFen);
+        }
+      }, DEMO_STEP_MS);
+    };
+    step(1);
+  }, [resetBoard]);
+
+  const onStartPractice = useCallback(() => {
+    setShowStory(false);
+    if (currentObjective?.demo) {
+      playDemo(currentObjective);
+    }
+  }, [currentObjective, playDemo]);
 
   // Check for objective completion whenever lessonState changes
   useEffect(() => {
@@ -136,6 +229,18 @@ export function LessonPage() {
         // Gloop encourages for completing this objective!
         encourageObjective(currentObjective.description, false);
 
+        // The next objective either sets up its own board or continues this one
+        const nextObjective = config.objectives[nextIndex];
+        const nextFen = getObjectiveStartFen(config, nextIndex);
+        const reply = getNextOpponentReply(currentObjective, lessonState);
+        if (nextObjective.demo) {
+          playDemo(nextObjective);
+        } else if (nextFen) {
+          resetBoard(nextFen);
+        } else if (moveMade && reply) {
+          playReply(reply, currentFen, false);
+        }
+
         // Advance to next objective
         prevMoveCount.current = 0;
         setLessonState(prev => resetObjectiveState({
@@ -145,27 +250,111 @@ export function LessonPage() {
         }));
       }
     } else if (moveMade) {
-      // Move made but objective NOT complete. Check if it was a "wrong" move.
-      // For objectives that require a specific single move/capture, any other move is wrong.
-      const isSingleAction = ['move-piece', 'capture'].includes(currentObjective.validator.type);
+      // Move made but objective NOT complete. Check if it was a "wrong" move:
+      // one that misses a single move/capture, or the current step of a sequence.
+      const isMistake = isWrongMove(currentObjective.validator, lessonState);
       
-      if (isSingleAction) {
+      const reply = getNextOpponentReply(currentObjective, lessonState);
+
+      if (isMistake) {
         handleMistake(currentObjective.description);
+        // A scripted story or a set-up position can't continue from the wrong move, so undo it
+        if (currentObjective.opponentReplies || currentObjective.fen) {
+          const before = stateBeforeMove.current;
+          prevMoveCount.current = before.moveCount;
+          setLessonState((prev) => undoMove(prev, before));
+          resetBoard(fenBeforeMove.current);
+        }
+      } else if (reply) {
+        playReply(reply, currentFen, true);
       }
     }
-  }, [lessonState, config, currentObjective, lessonId, addStars, completeLesson, showCelebration, memory, lesson, encourageObjective, handleMistake]);
+  }, [lessonState, config, currentObjective, lessonId, addStars, completeLesson, showCelebration, memory, lesson, encourageObjective, handleMistake, resetBoard, playReply, playDemo, currentFen]);
 
   const onSquareTap = useCallback((square: string) => {
     setLessonState((prev) => handleSquareTap(square, prev));
   }, []);
 
-  const onChessMove = useCallback((from: string, to: string, piece: string, isCapture: boolean, newFen: string) => {
-    setLessonState((prev) => handleMove(prev, { from, to, piece, isCapture }));
+  const onQuizAnswer = useCallback((_optionIndex: number, isCorrect: boolean) => {
+    if (!isCorrect) {
+      handleMistake(currentObjective?.validator.quiz?.question || 'Quiz');
+      return;
+    }
+    setLessonState((prev) => handleAnswer(prev, true));
+  }, [currentObjective, handleMistake]);
+
+  const onColorAnswer = useCallback((square: string, color: SquareColor) => {
+    if (color !== getSquareColor(square)) {
+      handleMistake(`Is ${square} light or dark?`);
+    }
+    setLessonState((prev) => handleColorAnswer(prev, square, color));
+  }, [handleMistake]);
+
+  const onPlacePiece = useCallback((square: string, piece: string, fromSquare?: string) => {
+    setLessonState((prev) => handlePlacePiece(prev, square, piece, fromSquare));
+  }, []);
+
+  const onRemovePiece = useCallback((square: string) => {
+    setLessonState((prev) => handleRemovePiece(prev, square));
+  }, []);
+
+  const onWrongPlacement = useCallback(() => {
+    if (currentObjective) handleMistake(currentObjective.description);
+  }, [currentObjective, handleMistake]);
+
+  const onChessMove = useCallback((from: string, to: string, piece: string, isCapture: boolean, newFen: string, details: MoveDetails) => {
+    fenBeforeMove.current = currentFen;
+    setLessonState((prev) => {
+      // Kept so a wrong move can be taken back together with the board
+      stateBeforeMove.current = prev;
+      return handleMove(prev, {
+        from,
+        to,
+        piece,
+        isCapture,
+        promotion: details.promotion,
+        captured: details.captured,
+        flags: details.flags,
+        fenBefore: details.before,
+        fen: newFen,
+      });
+    });
     setCurrentFen(newFen);
     setLastMove(`${from}-${to}`);
     return true;
+  }, [currentFen]);
+
+  // The computer's moves only update what Gloop sees; they don't count as the student's moves
+  const onComputerMove = useCallback((move: EngineMove, newFen: string) => {
+    setCurrentFen(newFen);
+    setLastMove(`${move.from}-${move.to}`);
   }, []);
 
+  const onGameEnd = useCallback((outcome: GameOutcome) => {
+    setLessonState((prev) => handleGameEnd(prev, outcome));
+    if (config?.type !== 'free-play') return;
+
+    const result: GameResult = outcome.winner === 'w' ? 'win' : outcome.winner === 'b' ? 'loss' : 'draw';
+    const how = result === 'draw' ? `draw by ${outcome.reason.replace(/-/g, ' ')}` : `${result === 'win' ? 'won' : 'lost'} by checkmate`;
+    memory.recordGameResult(result, opponentLevel.level, `lesson-${lessonId}`);
+    memory.addSessionNote(`Game vs computer (level ${opponentLevel.level}): ${how}`);
+
+    if (result === 'win') {
+      addStars(1);
+    }
+    setFinishedGame(outcome);
+  }, [config, memory, opponentLevel, lessonId, addStars]);
+
+  // After the announcement, set up a fresh game with a re-tuned opponent
+  const startNewGame = useCallback(() => {
+    setFinishedGame(null);
+    setOpponentLevel(memory.getOpponentLevel());
+    resetBoard(DEFAULT_POSITION);
+  }, [memory, resetBoard]);
+
+  // Show where a check against the student's king is coming from
+  const checkLine = useMemo(() => getCheckLine(currentFen), [currentFen]);
+
   const onAnswerSelect = useCallback((isCorrect: boolean) => {
     if (!isCorrect) {
       handleMistake("Selected wrong answer");
@@ -205,11 +394,8 @@ export function LessonPage() {
   const handleCelebrationComplete = () => {
     clearChat();
     setShowCelebration(false);
-    if (lessonId < lessons.length) {
-      navigate(`/lesson/${lessonId + 1}`);
-    } else {
-      navigate('/');
-    }
+    const next = lesson && getNextLesson(lesson, currentProgress);
+    navigate(next ? `/lesson/${next.id}` : '/');
   };
 
   if (!lesson || !config || !currentProfile) {
@@ -219,6 +405,12 @@ export function LessonPage() {
   const isExploreBoardLesson = config.type === 'explore-board';
   const shouldHighlightCorners = currentObjective?.validator.type === 'tap-corners';
   const showNumberPicker = currentObjective?.validator.type === 'count-confirm';
+  const quiz = currentObjective?.validator.type === 'quiz' ? currentObjective.validator.quiz : undefined;
+  const setupTarget = currentObjective?.validator.type === 'setup-position' ? currentObjective.validator.targetFen : undefined;
+  const colorQuizSquare = currentObjective?.validator.type === 'square-color'
+    ? getNextColorQuizSquare(currentObjective.validator, lessonState)
+    : null;
+  const setupScore = setupTarget ? scoreSetup(lessonState.placedPieces, setupTarget) : [];
 
   return (
     <div className="lesson-page">
@@ -244,7 +436,7 @@ export function LessonPage() {
             className="start-button"
             whileHover={{ scale: 1.05 }}
             whileTap={{ scale: 0.95 }}
-            onClick={() => setShowStory(false)}
+            onClick={onStartPractice}
           >
             Let's Practice!
           </motion.button>
@@ -252,28 +444,47 @@ export function LessonPage() {
       ) : (
         <div className="lesson-content">
           <div className={`board-section ${isShaking ? 'shake' : ''}`}>
+            {isDemoPlaying && <p className="demo-caption">👀 Watch closely!</p>}
             {showNumberPicker ? (
               <NumberPicker
                 correctAnswer={currentObjective?.validator.correctAnswer || 8}
                 onSelect={onAnswerSelect}
               />
-            ) : isExploreBoardLesson ? (
+            ) : quiz ? (
+              <QuizCard key={currentObjective?.id} quiz={quiz} onAnswer={onQuizAnswer} />
+            ) : setupTarget ? (
+              <SetupBoard
+                placedPieces={lessonState.placedPieces}
+                targetFen={setupTarget}
+                onPlace={onPlacePiece}
+                onRemove={onRemovePiece}
+                onWrongPlacement={onWrongPlacement}
+                boardSize={Math.min(400, window.innerWidth - 40)}
+              />
+            ) : isExploreBoardLesson || colorQuizSquare ? (
               <ExploreBoard
                 tappedSquares={lessonState.tappedSquares}
                 tappedCorners={lessonState.tappedCorners}
                 onSquareTap={onSquareTap}
                 highlightCorners={shouldHighlightCorners}
+                quizSquare={colorQuizSquare || undefined}
+                onColorAnswer={colorQuizSquare ? (color) => onColorAnswer(colorQuizSquare, color) : undefined}
                 boardSize={Math.min(400, window.innerWidth - 40)}
               />
             ) : (
               <ChessBoard
-                key={`lesson-${lessonId}`}
-                fen={config.fen || undefined}
-                onMove={(from, to, piece, isCapture, newFen) => onChessMove(from, to, piece, isCapture, newFen)}
+                key={`lesson-${lessonId}-${boardVersion}`}
+                fen={boardFen || undefined}
+                onMove={onChessMove}
                 boardSize={Math.min(400, window.innerWidth - 40)}
                 highlightSquares={latestResponse?.highlightSquare ? [latestResponse.highlightSquare] : []}
+                dangerSquares={checkLine}
                 customArrows={latestResponse?.drawArrow ? [latestResponse.drawArrow.split('-')] : []}
-                forceWhiteTurn={['piece-movement', 'capture'].includes(config.type)}
+                interactive={!isOpponentTurn && !isDemoPlaying}
+                forceWhiteTurn={['piece-movement', 'capture'].includes(config.type) && !currentObjective?.opponentReplies}
+                computerOpponent={config.type === 'free-play' ? getOpponentOptions(opponentLevel.level) : undefined}
+                onComputerMove={onComputerMove}
+                onGameEnd={onGameEnd}
               />
             )}
           </div>
@@ -289,6 +500,9 @@ export function LessonPage() {
                 {isLoading ? 'Thinking...' : '💡 Ask Gloop'}
               </button>
             </div>
+            {config.type === 'free-play' && (
+              <p className="opponent-level">🤖 Robot level {opponentLevel.level}</p>
+            )}
             <ul className="objectives-list">
               {config.objectives.map((objective, index) => {
                 const isCompleted = lessonState.completedObjectives.includes(objective.id);
@@ -307,6 +521,21 @@ export function LessonPage() {
                         {' '}({lessonState.tappedSquares.size}/{objective.validator.requiredCount || 5})
                       </span>
                     )}
+                    {isCurrent && objective.validator.type === 'square-color' && (
+                      <span className="progress-hint">
+                        {' '}({(objective.validator.requiredSquares || []).filter((sq) => lessonState.colorAnswers[sq] === getSquareColor(sq)).length}/{(objective.validator.requiredSquares || []).length})
+                      </span>
+                    )}
+                    {isCurrent && objective.validator.type === 'stay-on-color' && (
+                      <span className="progress-hint">
+                        {' '}({lessonState.moveCount}/{objective.validator.requiredCount || 1})
+                      </span>
+                    )}
+                    {isCurrent && setupTarget && (
+                      <span className="progress-hint">
+                        {' '}({setupScore.reduce((sum, score) => sum + score.correct, 0)}/{setupScore.reduce((sum, score) => sum + score.total, 0)})
+                      </span>
+                    )}
                     {isCurrent && objective.validator.type === 'tap-corners' && (
                       <span className="progress-hint">
                         {' '}({lessonState.tappedCorners.size}/4)
@@ -327,9 +556,23 @@ export function LessonPage() {
         onComplete={handleCelebrationComplete}
       />
 
+      {/* The lesson celebration takes over when winning also finishes the lesson */}
+      <Celebration
+        show={finishedGame?.winner === 'w' && !showCelebration}
+        starsEarned={1}
+        message="You beat the robot! 🏆"
+        onComplete={startNewGame}
+      />
+
+      <GameOverScreen
+        outcome={finishedGame?.winner !== 'w' && !showCelebration ? finishedGame : null}
+        onComplete={startNewGame}
+      />
+
       <TutorMascot
         messages={messages}
         isLoading={isLoading}
+        streamingMessage={streamingMessage}
         onSendMessage={handleSendMessage}
         onClose={clearChat}
         latestMood={latestResponse?.mood}
@@ -361,14 +604,17 @@ export function LessonPage() {
           opacity: 0.7;
           cursor: wait;
         }
-        .shake {
-          animation: shake 0.5s cubic-bezier(.36,.07,.19,.97) both;
+        .demo-caption {
+          text-align: center;
+          font-size: 1.2rem;
+          font-weight: bold;
+          color: var(--secondary);
+          margin-bottom: 0.5rem;
         }
-        @keyframes shake {
-          10%, 90% { transform: translate3d(-1px, 0, 0); }
-          20%, 80% { transform: translate3d(2px, 0, 0); }
-          30%, 50%, 70% { transform: translate3d(-4px, 0, 0); }
-          40%, 60% { transform: translate3d(4px, 0, 0); }
+        .opponent-level {
+          margin: 0 0 1rem;
+          font-weight: bold;
+          color: var(--text-muted);
         }
       `}</style>
     </div>
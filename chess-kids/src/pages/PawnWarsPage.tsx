@@ -0,0 +1,223 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import { ChessBoard } from '../components/ChessBoard';
+import { Celebration } from '../components/Celebration';
+import { StarCounter } from '../components/StarCounter';
+import {
+  PAWN_WARS_ACTIVITY,
+  PAWN_WARS_FEN,
+  getPawnWarsOutcome,
+  choosePawnWarsMove,
+  playPawnWarsMove,
+  type PawnWarsMode,
+  type PawnWarsOutcome,
+} from '../data/pawnWars';
+import { useProfile } from '../hooks/useProfile';
+import { useStudentMemory } from '../hooks/useStudentMemory';
+
+const COMPUTER_REPLY_DELAY_MS = 600;
+
+const COLOR_NAMES = { w: 'White', b: 'Black' };
+const REASON_TEXT = {
+  'reached-end': 'made it all the way across',
+  'all-captured': 'captured every enemy pawn',
+  blocked: 'Nobody can move, so it is a draw',
+};
+
+function describeOutcome(outcome: PawnWarsOutcome, mode: PawnWarsMode): string {
+  if (!outcome.winner) return REASON_TEXT.blocked;
+  if (mode === 'computer') {
+    return outcome.winner === 'w'
+      ? `You win! Your pawn ${REASON_TEXT[outcome.reason]}!`
+      : `The computer ${REASON_TEXT[outcome.reason]}. Try again!`;
+  }
+  return `${COLOR_NAMES[outcome.winner]} wins! ${COLOR_NAMES[outcome.winner]} ${REASON_TEXT[outcome.reason]}!`;
+}
+
+export function PawnWarsPage() {
+  const navigate = useNavigate();
+  const { currentProfile, addStars } = useProfile();
+
+  const [mode, setMode] = useState<PawnWarsMode | null>(null);
+  const [boardFen, setBoardFen] = useState(PAWN_WARS_FEN);
+  const [outcome, setOutcome] = useState<PawnWarsOutcome | null>(null);
+  const [isComputerTurn, setIsComputerTurn] = useState(false);
+  const [showCelebration, setShowCelebration] = useState(false);
+  const replyTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const memory = useStudentMemory(currentProfile?.id);
+
+  useEffect(() => {
+    if (!currentProfile) {
+      navigate('/profiles');
+    }
+  }, [currentProfile, navigate]);
+
+  useEffect(() => {
+    memory.startSession(0, PAWN_WARS_ACTIVITY);
+    return () => {
+      memory.endSession();
+    };
+  }, [memory]);
+
+  useEffect(() => {
+    return () => clearTimeout(replyTimer.current);
+  }, []);
+
+  const startGame = useCallback((nextMode: PawnWarsMode) => {
+    clearTimeout(replyTimer.current);
+    setMode(nextMode);
+    setBoardFen(PAWN_WARS_FEN);
+    setOutcome(null);
+    setIsComputerTurn(false);
+  }, []);
+
+  // Pawn Wars has its own finish line, so the page checks it rather than the board
+  const finishGame = useCallback((result: PawnWarsOutcome, gameMode: PawnWarsMode) => {
+    setOutcome(result);
+
+    if (gameMode === 'computer') {
+      const verdict = !result.winner ? 'drew' : result.winner === 'w' ? 'won' : 'lost';
+      memory.addSessionNote(`Pawn Wars vs computer: ${verdict} (${result.reason})`);
+      if (result.winner === 'w') {
+        memory.recordObjectiveCompleted(`${PAWN_WARS_ACTIVITY}-win`);
+        addStars(1);
+        setShowCelebration(true);
+      }
+    } else {
+      memory.addSessionNote(`Pawn Wars with a sibling: ${result.winner ? `${COLOR_NAMES[result.winner]} won` : 'draw'} (${result.reason})`);
+    }
+  }, [memory, addStars]);
+
+  const onMove = useCallback((_from: string, _to: string, _piece: string, _isCapture: boolean, newFen: string) => {
+    if (!mode) return false;
+    setBoardFen(newFen);
+
+    const result = getPawnWarsOutcome(newFen);
+    if (result) {
+      finishGame(result, mode);
+      return true;
+    }
+
+    if (mode === 'computer') {
+      setIsComputerTurn(true);
+      replyTimer.current = setTimeout(() => {
+        const reply = choosePawnWarsMove(newFen);
+        const replyFen = reply && playPawnWarsMove(newFen, reply.from, reply.to);
+        setIsComputerTurn(false);
+        if (!replyFen) return;
+
+        setBoardFen(replyFen);
+        const replyResult = getPawnWarsOutcome(replyFen);
+        if (replyResult) finishGame(replyResult, mode);
+      }, COMPUTER_REPLY_DELAY_MS);
+    }
+    return true;
+  }, [mode, finishGame]);
+
+  if (!currentProfile) return null;
+
+  const turn = boardFen.split(' ')[1] === 'b' ? 'b' : 'w';
+
+  return (
+    <div className="lesson-page pawn-wars-page">
+      <header className="lesson-header">
+        <button className="back-button" onClick={() => navigate('/')} aria-label="Back to home">
+          <ArrowLeft size={24} />
+        </button>
+        <h1>♟️ Pawn Wars</h1>
+        <StarCounter />
+      </header>
+
+      <div className="lesson-content">
+        <div className="board-section">
+          <ChessBoard
+            fen={boardFen}
+            onMove={onMove}
+            interactive={!!mode && !outcome && !isComputerTurn}
+            autoPromotion="q"
+            boardSize={Math.min(400, window.innerWidth - 40)}
+          />
+        </div>
+
+        <div className="objectives-section">
+          <h3>Only pawns!</h3>
+          <p className="pawn-wars-rules">
+            Get one pawn to the other side, or capture all the other pawns, to win.
+          </p>
+
+          {!mode ? (
+            <div className="pawn-wars-modes">
+              <motion.button
+                className="start-button"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => startGame('computer')}
+              >
+                🤖 Play the computer
+              </motion.button>
+              <motion.button
+                className="start-button"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => startGame('sibling')}
+              >
+                👫 Play a friend
+              </motion.button>
+            </div>
+          ) : outcome ? (
+            <>
+              <p className="pawn-wars-result">{describeOutcome(outcome, mode)}</p>
+              <motion.button
+                className="start-button pawn-wars-restart"
+                whileHover={{ scale: 1.05 }}
+                whileTap={{ scale: 0.95 }}
+                onClick={() => startGame(mode)}
+              >
+                <RotateCcw size={16} /> Play again
+              </motion.button>
+            </>
+          ) : (
+            <p className="progress-hint">
+              {mode === 'computer'
+                ? isComputerTurn ? 'The computer is thinking...' : 'Your turn! You are White.'
+                : `${COLOR_NAMES[turn]}'s turn`}
+            </p>
+          )}
+        </div>
+      </div>
+
+      <Celebration
+        show={showCelebration}
+        starsEarned={1}
+        message="You won Pawn Wars! ♟️"
+        onComplete={() => setShowCelebration(false)}
+      />
+
+      <style>{`
+        .pawn-wars-rules {
+          margin: 0.5rem 0 1.5rem;
+          font-size: 1.1rem;
+        }
+        .pawn-wars-modes {
+          display: flex;
+          flex-direction: column;
+          gap: 12px;
+        }
+        .pawn-wars-result {
+          font-size: 1.3rem;
+          font-weight: bold;
+          color: var(--secondary);
+        }
+        .pawn-wars-restart {
+          display: inline-flex;
+          align-items: center;
+          gap: 6px;
+          margin-top: 1rem;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { ArrowLeft } from 'lucide-react';
+import { ChessBoard, type MoveDetails } from '../components/ChessBoard';
+import { Celebration } from '../components/Celebration';
+import { StarCounter } from '../components/StarCounter';
+import { puzzles, puzzleThemeLabels, getMateInMoves, type Puzzle } from '../data/puzzles';
+import {
+  createPuzzleState,
+  handlePuzzleMove,
+  handlePuzzleReply,
+  type PuzzleState,
+} from '../data/puzzleEngine';
+import { useProfile } from '../hooks/useProfile';
+import { useStudentMemory } from '../hooks/useStudentMemory';
+import { useMistakeFeedback } from '../hooks/useMistakeFeedback';
+
+const OPPONENT_REPLY_DELAY_MS = 700;
+
+export function PuzzlePage() {
+  const navigate = useNavigate();
+  const { currentProfile, addStars } = useProfile();
+
+  const [puzzleIndex, setPuzzleIndex] = useState(0);
+  const [puzzleState, setPuzzleState] = useState<PuzzleState>(() => createPuzzleState(puzzles[0]));
+  const [boardFen, setBoardFen] = useState(puzzles[0].fen);
+  const [isOpponentTurn, setIsOpponentTurn] = useState(false);
+  const [showCelebration, setShowCelebration] = useState(false);
+  const replyTimer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  const puzzle = puzzles[puzzleIndex];
+
+  const memory = useStudentMemory(currentProfile?.id);
+  const { isShaking, handleMistake } = useMistakeFeedback(memory);
+
+  useEffect(() => {
+    if (!currentProfile) {
+      navigate('/profiles');
+    }
+  }, [currentProfile, navigate]);
+
+  useEffect(() => {
+    memory.startSession(0, 'puzzles');
+    return () => {
+      memory.endSession();
+    };
+  }, [memory]);
+
+  useEffect(() => {
+    return () => clearTimeout(replyTimer.current);
+  }, []);
+
+  // Remember which themes are tricky so Gloop can help with them later
+  const recordThemeStruggle = useCallback((struggled: Puzzle) => {
+    memory.recordObjectiveFailed(`puzzle-${struggled.id}`);
+
+    const themeEntity = `puzzles/${struggled.theme}`;
+    const alreadyKnown = memory.getActiveFacts().some(
+      (fact) => fact.category === 'skill-gap' && fact.relatedEntities.includes(themeEntity)
+    );
+    if (!alreadyKnown) {
+      memory.addFact(
+        `Finds "${puzzleThemeLabels[struggled.theme]}" puzzles tricky`,
+        'skill-gap',
+        `puzzle-${struggled.id}`,
+        [themeEntity]
+      );
+    }
+  }, [memory]);
+
+  const onPuzzleMove = useCallback((from: string, to: string, _piece: string, _isCapture: boolean, _newFen: string, details: MoveDetails) => {
+    const { state, result } = handlePuzzleMove(puzzle, puzzleState, { from, to, promotion: details.promotion });
+    setPuzzleState(state);
+
+    if (result === 'wrong') {
+      handleMistake(`${puzzleThemeLabels[puzzle.theme]} puzzle (${from}-${to})`);
+      if (puzzleState.mistakes === 0) {
+        recordThemeStruggle(puzzle);
+      }
+      return false;
+    }
+
+    if (result === 'solved') {
+      memory.recordObjectiveCompleted(`puzzle-${puzzle.id}`);
+      addStars(1);
+      setShowCelebration(true);
+      return true;
+    }
+
+    setIsOpponentTurn(true);
+    replyTimer.current = setTimeout(() => {
+      const next = handlePuzzleReply(puzzle, state);
+      setPuzzleState(next);
+      setBoardFen(next.fen);
+      setIsOpponentTurn(false);
+    }, OPPONENT_REPLY_DELAY_MS);
+    return true;
+  }, [puzzle, puzzleState, handleMistake, recordThemeStruggle, memory, addStars]);
+
+  const handleCelebrationComplete = () => {
+    setShowCelebration(false);
+    const nextIndex = puzzleIndex + 1;
+    if (nextIndex >= puzzles.length) {
+      navigate('/');
+      return;
+    }
+
+    setPuzzleIndex(nextIndex);
+    setPuzzleState(createPuzzleState(puzzles[nextIndex]));
+    setBoardFen(puzzles[nextIndex].fen);
+  };
+
+  if (!currentProfile) return null;
+
+  const mateIn = getMateInMoves(puzzle);
+  const studentMoveNumber = Math.floor(puzzleState.moveIndex / 2) + 1;
+
+  return (
+    <div className="lesson-page puzzle-page">
+      <header className="lesson-header">
+        <button className="back-button" onClick={() => navigate('/')} aria-label="Back to home">
+          <ArrowLeft size={24} />
+        </button>
+        <h1>🧩 Puzzle Time!</h1>
+        <StarCounter />
+      </header>
+
+      <div className="lesson-content">
+        <div className={`board-section ${isShaking ? 'shake' : ''}`}>
+          <ChessBoard
+            key={`puzzle-${puzzle.id}`}
+            fen={boardFen}
+            onMove={onPuzzleMove}
+            interactive={!isOpponentTurn && !puzzleState.solved}
+            boardSize={Math.min(400, window.innerWidth - 40)}
+          />
+        </div>
+
+        <div className="objectives-section">
+          <span className="puzzle-theme">{puzzleThemeLabels[puzzle.theme]}</span>
+          <h3>{puzzle.title}</h3>
+          <p className="puzzle-goal">
+            White to move. Checkmate in {mateIn} {mateIn === 1 ? 'move' : 'moves'}!
+          </p>
+          {mateIn > 1 && (
+            <p className="progress-hint">
+              Move {Math.min(studentMoveNumber, mateIn)} of {mateIn}
+            </p>
+          )}
+          <p className="progress-hint">
+            Puzzle {puzzleIndex + 1} of {puzzles.length}
+          </p>
+        </div>
+      </div>
+
+      <Celebration
+        show={showCelebration}
+        starsEarned={1}
+        message="Puzzle solved! 🧩"
+        onComplete={handleCelebrationComplete}
+      />
+
+      <style>{`
+        .puzzle-theme {
+          display: inline-block;
+          background: var(--secondary);
+          color: white;
+          padding: 4px 12px;
+          border-radius: 12px;
+          font-size: 0.8rem;
+          font-weight: bold;
+          margin-bottom: 0.5rem;
+        }
+        .puzzle-goal {
+          margin: 0.5rem 0;
+          font-size: 1.1rem;
+        }
+      `}</style>
+    </div>
+  );
+}
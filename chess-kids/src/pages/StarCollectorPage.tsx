@@ -0,0 +1,163 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { ArrowLeft, RotateCcw } from 'lucide-react';
+import { StarBoard } from '../components/StarBoard';
+import { Celebration } from '../components/Celebration';
+import { StarCounter } from '../components/StarCounter';
+import {
+  STAR_ACTIVITY,
+  OPTIMAL_BONUS_STARS,
+  createStarGame,
+  handleStarMove,
+  isStarGameComplete,
+  getMinimumMoves,
+  getStarReward,
+  getUnlockedStarLevels,
+  type StarGameState,
+} from '../data/starCollector';
+import { useProfile } from '../hooks/useProfile';
+import { useStudentMemory } from '../hooks/useStudentMemory';
+
+const PIECE_NAMES = { n: 'Knight', r: 'Rook', b: 'Bishop', q: 'Queen' };
+
+export function StarCollectorPage() {
+  const navigate = useNavigate();
+  const { currentProfile, currentProgress, addStars } = useProfile();
+
+  const levels = useMemo(
+    () => getUnlockedStarLevels(currentProgress.completedLessons),
+    [currentProgress.completedLessons]
+  );
+  const [levelIndex, setLevelIndex] = useState(0);
+  const level = levels[levelIndex];
+
+  const [game, setGame] = useState<StarGameState | null>(() => (level ? createStarGame(level) : null));
+  const [reward, setReward] = useState(0);
+
+  const memory = useStudentMemory(currentProfile?.id);
+  const minimumMoves = useMemo(() => (level ? getMinimumMoves(level) : null), [level]);
+
+  useEffect(() => {
+    if (!currentProfile) {
+      navigate('/profiles');
+    }
+  }, [currentProfile, navigate]);
+
+  useEffect(() => {
+    memory.startSession(0, STAR_ACTIVITY);
+    return () => {
+      memory.endSession();
+    };
+  }, [memory]);
+
+  const onSquareTap = useCallback((square: string) => {
+    if (!level || !game) return;
+
+    const next = handleStarMove(level, game, square);
+    if (!next) return;
+    setGame(next);
+
+    if (isStarGameComplete(level, next)) {
+      const earned = getStarReward(level, next);
+      setReward(earned);
+      addStars(earned);
+
+      memory.recordObjectiveCompleted(`${STAR_ACTIVITY}-${level.id}`);
+      memory.addSessionNote(
+        `Star hunt level ${level.id} (${PIECE_NAMES[level.piece]}): ${next.moves} moves, best possible ${minimumMoves}`
+      );
+    }
+  }, [level, game, addStars, memory, minimumMoves]);
+
+  const restart = useCallback(() => {
+    if (level) setGame(createStarGame(level));
+  }, [level]);
+
+  const handleCelebrationComplete = () => {
+    setReward(0);
+    const nextIndex = levelIndex + 1;
+    if (nextIndex >= levels.length) {
+      navigate('/');
+      return;
+    }
+    setLevelIndex(nextIndex);
+    setGame(createStarGame(levels[nextIndex]));
+  };
+
+  if (!currentProfile) return null;
+
+  const isOptimal = reward > 0 && game?.moves === minimumMoves;
+
+  return (
+    <div className="lesson-page star-collector-page">
+      <header className="lesson-header">
+        <button className="back-button" onClick={() => navigate('/')} aria-label="Back to home">
+          <ArrowLeft size={24} />
+        </button>
+        <h1>⭐ Star Hunt</h1>
+        <StarCounter />
+      </header>
+
+      {!level || !game ? (
+        <p className="story-text">Finish The Jumping Knight lesson to start hunting stars!</p>
+      ) : (
+        <div className="lesson-content">
+          <div className="board-section">
+            <StarBoard
+              level={level}
+              state={game}
+              onSquareTap={onSquareTap}
+              interactive={!isStarGameComplete(level, game)}
+              boardSize={Math.min(400, window.innerWidth - 40)}
+            />
+          </div>
+
+          <div className="objectives-section">
+            <h3>
+              Level {levelIndex + 1}: {PIECE_NAMES[level.piece]}
+            </h3>
+            <p className="star-goal">
+              Collect every ⭐ with your {PIECE_NAMES[level.piece].toLowerCase()}. Watch out for the 🪨 rocks!
+            </p>
+            <p className="progress-hint">
+              Stars: {game.collected.length}/{level.stars.length}
+            </p>
+            <p className="progress-hint">
+              Moves: {game.moves}
+              {minimumMoves !== null && ` (can you do it in ${minimumMoves}?)`}
+            </p>
+            <motion.button
+              className="start-button star-restart"
+              whileHover={{ scale: 1.05 }}
+              whileTap={{ scale: 0.95 }}
+              onClick={restart}
+            >
+              <RotateCcw size={16} /> Start over
+            </motion.button>
+          </div>
+        </div>
+      )}
+
+      <Celebration
+        show={reward > 0}
+        starsEarned={reward}
+        message={isOptimal ? `Perfect route! +${OPTIMAL_BONUS_STARS} bonus stars 🌟` : 'All stars collected! ⭐'}
+        onComplete={handleCelebrationComplete}
+      />
+
+      <style>{`
+        .star-goal {
+          margin: 0.5rem 0;
+          font-size: 1.1rem;
+        }
+        .star-restart {
+          display: inline-flex;
+          align-items: center;
+          gap: 6px;
+          margin-top: 1rem;
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { checkBoardHints, buildIllegalMovePrompt } from './hintGuard';
+import { getLegalMovesFrom } from '../engine/positionAnalysis';
+import type { TutorResponse } from '../../utils/tutorSchema';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const KNIGHT_AND_KINGS = '4k3/8/8/8/8/8/8/1N2K3 w - - 0 1';
+const reply = (extra: Partial<TutorResponse>): TutorResponse => ({ message: 'Look!', mood: 'encouraging', ...extra });
+
+describe('hintGuard', () => {
+    it('keeps legal arrows and useful highlights as they are', () => {
+        const result = checkBoardHints(reply({ drawArrow: 'e2-e4', highlightSquare: 'e4' }), START);
+        expect(result.response).toEqual(reply({ drawArrow: 'e2-e4', highlightSquare: 'e4' }));
+        expect(result.problems).toEqual([]);
+        expect(result.illegalArrow).toBeUndefined();
+    });
+
+    it('allows arrows for the side that is not to move, like an opponent threat', () => {
+        expect(checkBoardHints(reply({ drawArrow: 'g8-f6' }), START).response.drawArrow).toBe('g8-f6');
+    });
+
+    it('turns a backwards arrow around', () => {
+        const result = checkBoardHints(reply({ drawArrow: 'f3-g1' }), START);
+        expect(result.response.drawArrow).toBe('g1-f3');
+        expect(result.problems[0]).toContain('changed to g1-f3');
+    });
+
+    it('fixes the starting square when only one piece can reach the target', () => {
+        expect(checkBoardHints(reply({ drawArrow: 'g1-c3' }), KNIGHT_AND_KINGS).response.drawArrow).toBe('b1-c3');
+        // Both the knight and the king can reach d2, so there is no telling which was meant
+        expect(checkBoardHints(reply({ drawArrow: 'g1-d2' }), KNIGHT_AND_KINGS).illegalArrow).toBe('g1-d2');
+    });
+
+    it('drops an impossible arrow and flags it for re-asking', () => {
+        const result = checkBoardHints(reply({ drawArrow: 'e2-e5' }), START);
+        expect(result.response.drawArrow).toBeUndefined();
+        expect(result.illegalArrow).toBe('e2-e5');
+        expect(result.response.message).toBe('Look!');
+    });
+
+    it('drops highlights on empty squares nothing can reach', () => {
+        expect(checkBoardHints(reply({ highlightSquare: 'a3' }), KNIGHT_AND_KINGS).response.highlightSquare).toBe('a3');
+        const result = checkBoardHints(reply({ highlightSquare: 'h8' }), KNIGHT_AND_KINGS);
+        expect(result.response.highlightSquare).toBeUndefined();
+        expect(result.problems).toHaveLength(1);
+    });
+
+    it('works on lesson boards without kings', () => {
+        const fen = '8/8/8/8/3N4/8/8/8 w - - 0 1';
+        expect(getLegalMovesFrom(fen, 'd4')).toHaveLength(8);
+        expect(checkBoardHints(reply({ drawArrow: 'd4-e6' }), fen).response.drawArrow).toBe('d4-e6');
+    });
+
+    it('tells the model what the piece can really do', () => {
+        const prompt = buildIllegalMovePrompt('e2-e5', START);
+        expect(prompt).toContain('e2-e3, e2-e4');
+        expect(buildIllegalMovePrompt('e4-e5', START)).toContain('no piece on e4');
+    });
+});
@@ -0,0 +1,88 @@
+/**
+ * Board Hint Guard
+ *
+ * Gloop's `drawArrow` and `highlightSquare` go straight onto the board, so
+ * they are checked against the real position first. Models often invent
+ * moves ("e2-e5"); those are fixed when the intent is clear, otherwise
+ * dropped so a child never sees an impossible move.
+ */
+
+import { Chess, type Square } from 'chess.js';
+import type { TutorResponse } from '../../utils/tutorSchema';
+import { getLegalMovesFrom, getMovesForBothSides } from '../engine/positionAnalysis';
+
+export interface HintCheck {
+    response: TutorResponse;
+    problems: string[];      // What was changed or removed, for logging
+    illegalArrow?: string;   // Set when an arrow had to be dropped, so the model can be asked again
+}
+
+// Lesson boards may have no kings, and forced-turn boards an odd side to move
+const loadGame = (fen: string) => new Chess(fen, { skipValidation: true });
+
+// Either side counts: an arrow can show the child's move or an opponent threat
+function isLegalArrow(fen: string, from: string, to: string): boolean {
+    return getLegalMovesFrom(fen, from).some((move) => move.to === to);
+}
+
+/** Fixes an arrow whose intent is clear, or returns null if it can't be trusted. */
+function repairArrow(fen: string, from: string, to: string): string | null {
+    // Drawn backwards
+    if (isLegalArrow(fen, to, from)) return `${to}-${from}`;
+
+    // Right destination, wrong starting square: only fix it if exactly one piece can go there
+    const game = loadGame(fen);
+    const color = game.get(from as Square)?.color ?? game.turn();
+    const candidates = new Set(
+        getMovesForBothSides(fen).filter((move) => move.to === to && move.color === color).map((move) => move.from)
+    );
+    if (candidates.size === 1) return `${[...candidates][0]}-${to}`;
+
+    return null;
+}
+
+export function checkBoardHints(response: TutorResponse, fen: string): HintCheck {
+    const problems: string[] = [];
+    const checked: TutorResponse = { ...response };
+    let illegalArrow: string | undefined;
+
+    if (checked.drawArrow) {
+        const [from, to] = checked.drawArrow.split('-');
+        if (!isLegalArrow(fen, from, to)) {
+            const fixed = repairArrow(fen, from, to);
+            if (fixed) {
+                problems.push(`Arrow ${checked.drawArrow} is not legal, changed to ${fixed}`);
+                checked.drawArrow = fixed;
+            } else {
+                problems.push(`Arrow ${checked.drawArrow} is not legal, removed`);
+                illegalArrow = checked.drawArrow;
+                delete checked.drawArrow;
+            }
+        }
+    }
+
+    // A highlight should point at a piece or at a square something can move to
+    if (checked.highlightSquare) {
+        const square = checked.highlightSquare;
+        const isUseful = !!loadGame(fen).get(square as Square) || getMovesForBothSides(fen).some((move) => move.to === square);
+        if (!isUseful) {
+            problems.push(`Highlight ${square} is an empty square nothing can reach, removed`);
+            delete checked.highlightSquare;
+        }
+    }
+
+    return { response: checked, problems, illegalArrow };
+}
+
+/** Follow-up asking the model to replace an illegal arrow, listing what the piece can really do. */
+export function buildIllegalMovePrompt(arrow: string, fen: string): string {
+    const [from] = arrow.split('-');
+    // Promotions list the same from-to once per piece
+    const moves = [...new Set(getLegalMovesFrom(fen, from).map((move) => `${move.from}-${move.to}`))];
+    const options = moves.length > 0
+        ? `The piece on ${from} can only go: ${moves.join(', ')}.`
+        : `There is no piece on ${from} that can move.`;
+
+    return `The arrow "${arrow}" is not a legal move in this position (FEN: ${fen}). ${options}
+Reply again with the same JSON format. Only use a "drawArrow" that is a legal move, or leave it out.`;
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { tutorService, type GameContext } from './tutorService';
+import { SAFE_TUTOR_RESPONSE } from '../../utils/tutorSchema';
 
 describe('TutorService', () => {
     beforeEach(() => {
@@ -24,6 +25,26 @@ describe('TutorService', () => {
         expect(prompt).toContain('Grandmaster Gloop');
     });
 
+    it('includes engine-checked position facts in the prompt', async () => {
+        vi.mocked(global.fetch).mockResolvedValue(new Response(JSON.stringify({ message: 'Hi!', mood: 'encouraging' })));
+
+        await tutorService.getAdvice({ fen: '6k1/5ppp/8/8/8/8/8/3R2K1 w - - 0 1', lastMove: 'd2-d1' });
+
+        const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]?.body as string);
+        expect(body.systemPrompt).toContain('## Position Facts');
+        expect(body.systemPrompt).toContain('- Rd8# (rook from d1 to d8) is checkmate!');
+        expect(body.systemPrompt).toContain('- The white rook on d1 can move to:');
+    });
+
+    it('sends the FEN so the server can answer board tool calls', async () => {
+        vi.mocked(global.fetch).mockResolvedValue(new Response(JSON.stringify({ message: 'Hi!', mood: 'encouraging' })));
+
+        await tutorService.getAdvice({ fen: '6k1/5ppp/8/8/8/8/8/3R2K1 w - - 0 1' });
+
+        const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]?.body as string);
+        expect(body.fen).toBe('6k1/5ppp/8/8/8/8/8/3R2K1 w - - 0 1');
+    });
+
     it('returns advice from AI correctly', async () => {
         const mockAdvice = {
             message: 'Great job! Try moving your e-pawn forward.',
@@ -58,6 +79,20 @@ describe('TutorService', () => {
         expect(advice.mood).toBe('thinking');
     });
 
+    it('replaces replies that fail the schema with the safe message', async () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.mocked(global.fetch).mockResolvedValue(
+            new Response(JSON.stringify({ message: 'Hi', mood: 'grumpy', drawArrow: 'e2' }))
+        );
+
+        const advice = await tutorService.chat([]);
+
+        expect(advice.message).toContain("I'm having a little trouble thinking");
+        expect(advice.mood).toBe('thinking');
+        expect(warn).toHaveBeenCalledWith(expect.stringMatching(/schema fallback #\d+: "mood" must be one of/));
+        warn.mockRestore();
+    });
+
     it('handles invalid JSON from AI gracefully', async () => {
         (global.fetch as any).mockResolvedValue({
             ok: true,
@@ -73,4 +108,119 @@ describe('TutorService', () => {
         expect(advice.message).toContain("I'm having a little trouble thinking");
         expect(advice.mood).toBe('thinking');
     });
+
+    describe('board hints', () => {
+        const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+        const json = (body: object) => new Response(JSON.stringify(body));
+
+        beforeEach(() => {
+            vi.spyOn(console, 'warn').mockImplementation(() => {});
+        });
+
+        it('re-asks once when the arrow is not a legal move', async () => {
+            vi.mocked(global.fetch)
+                .mockResolvedValueOnce(json({ message: 'Push e2 to e5!', mood: 'encouraging', drawArrow: 'e2-e5' }))
+                .mockResolvedValueOnce(json({ message: 'Push e2 to e4!', mood: 'encouraging', drawArrow: 'e2-e4' }));
+
+            const advice = await tutorService.chat([], { fen: START });
+
+            expect(advice.drawArrow).toBe('e2-e4');
+            expect(advice.message).toBe('Push e2 to e4!');
+            expect(global.fetch).toHaveBeenCalledTimes(2);
+            const retryBody = JSON.parse(vi.mocked(global.fetch).mock.calls[1][1]?.body as string);
+            expect(retryBody.messages.at(-1).content).toContain('"e2-e5" is not a legal move');
+        });
+
+        it('drops the arrow if the second answer is still illegal', async () => {
+            vi.mocked(global.fetch)
+                .mockResolvedValueOnce(json({ message: 'Go!', mood: 'encouraging', drawArrow: 'e2-e5' }))
+                .mockResolvedValueOnce(json({ message: 'Go go!', mood: 'encouraging', drawArrow: 'e2-e6' }));
+
+            const advice = await tutorService.chat([], { fen: START });
+
+            expect(advice.drawArrow).toBeUndefined();
+            expect(advice.message).toBe('Go go!');
+            expect(global.fetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('keeps the first reply when the server falls back on the retry', async () => {
+            vi.mocked(global.fetch)
+                .mockResolvedValueOnce(json({ message: 'Push e2 to e5!', mood: 'encouraging', drawArrow: 'e2-e5' }))
+                .mockResolvedValueOnce(json({ ...SAFE_TUTOR_RESPONSE }));
+
+            const advice = await tutorService.chat([], { fen: START });
+
+            expect(advice).toEqual({ message: 'Push e2 to e5!', mood: 'encouraging' });
+            expect(global.fetch).toHaveBeenCalledTimes(2);
+        });
+
+        it('keeps the first reply when the retry request fails', async () => {
+            vi.mocked(global.fetch)
+                .mockResolvedValueOnce(json({ message: 'Push e2 to e5!', mood: 'encouraging', drawArrow: 'e2-e5' }))
+                .mockResolvedValueOnce(new Response('Server error', { status: 500 }));
+
+            const advice = await tutorService.chat([], { fen: START });
+
+            expect(advice).toEqual({ message: 'Push e2 to e5!', mood: 'encouraging' });
+        });
+
+        it('does not re-ask for arrows it can fix', async () => {
+            vi.mocked(global.fetch).mockResolvedValueOnce(json({ message: 'Jump!', mood: 'encouraging', drawArrow: 'f3-g1' }));
+
+            const advice = await tutorService.chat([], { fen: START });
+
+            expect(advice.drawArrow).toBe('g1-f3');
+            expect(global.fetch).toHaveBeenCalledTimes(1);
+        });
+    });
+
+    describe('streaming', () => {
+        const streamOf = (...chunks: string[]) => new ReadableStream<Uint8Array>({
+            start(controller) {
+                const encoder = new TextEncoder();
+                chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+                controller.close();
+            },
+        });
+
+        const sseResponse = (...chunks: string[]) =>
+            new Response(streamOf(...chunks), { headers: { 'Content-Type': 'text/event-stream' } });
+
+        it('passes the message to onMessage as it streams, then resolves with the full response', async () => {
+            const done = { message: 'Move your knight!', mood: 'encouraging', highlightSquare: 'g1' };
+            vi.mocked(global.fetch).mockResolvedValue(sseResponse(
+                'event: delta\ndata: {"text":"{\\"message\\": \\"Move "}\n\n',
+                // Events can be split across chunks
+                'event: delta\ndata: {"text":"your knight!\\", \\"mood',
+                '\\": \\"encouraging\\"}"}\n\n',
+                `event: done\ndata: ${JSON.stringify(done)}\n\n`,
+            ));
+
+            const partials: string[] = [];
+            const response = await tutorService.chat([], { fen: 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1' }, (partial) => partials.push(partial));
+
+            expect(partials).toEqual(['Move ', 'Move your knight!']);
+            expect(response).toEqual(done);
+            const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]?.body as string);
+            expect(body.stream).toBe(true);
+        });
+
+        it('falls back to a plain JSON answer from servers that do not stream', async () => {
+            const mockAdvice = { message: 'Hi!', mood: 'encouraging' };
+            vi.mocked(global.fetch).mockResolvedValue(
+                new Response(JSON.stringify(mockAdvice), { headers: { 'Content-Type': 'application/json' } })
+            );
+
+            const onMessage = vi.fn();
+            expect(await tutorService.chat([], undefined, onMessage)).toEqual(mockAdvice);
+            expect(onMessage).not.toHaveBeenCalled();
+        });
+
+        it('uses the fallback when the stream ends without a response', async () => {
+            vi.mocked(global.fetch).mockResolvedValue(sseResponse('event: delta\ndata: {"text":"{\\"message\\": \\"Hm"}\n\n'));
+
+            const response = await tutorService.chat([], undefined, () => {});
+            expect(response.mood).toBe('thinking');
+        });
+    });
 });
@@ -9,13 +9,10 @@
  * Provider is selected via AI_PROVIDER environment variable on the server.
  */
 
-interface TutorResponse {
-    message: string;
-    mood: "encouraging" | "thinking" | "surprised" | "celebrating";
-    highlightSquare?: string;
-    drawArrow?: string; // Format: "e2-e4"
-    learnedFacts?: string[]; // New facts learned about the student
-}
+import { extractPartialMessage, parseSseEvents } from '../../utils/aiUtils';
+import { parseTutorResponse, isFallbackResponse, SAFE_TUTOR_RESPONSE, type TutorResponse } from '../../utils/tutorSchema';
+import { checkBoardHints, buildIllegalMovePrompt } from './hintGuard';
+import { analyzePosition, describeAnalysis } from '../engine/positionAnalysis';
 
 interface GameContext {
     fen: string;
@@ -31,11 +28,14 @@ interface ChatMessage {
 
 class ChessTutorService {
     private apiEndpoint = '/api/tutor';
+    private schemaFallbacks = 0;
 
     /**
-     * Chat with Gloop - supports multi-turn conversations
+     * Chat with Gloop - supports multi-turn conversations.
+     * With `onMessage`, the reply is streamed and `onMessage` gets Gloop's
+     * message so far as it grows; the full response still resolves at the end.
      */
-    async chat(messages: ChatMessage[], context?: GameContext): Promise<TutorResponse> {
+    async chat(messages: ChatMessage[], context?: GameContext, onMessage?: (partialMessage: string) => void): Promise<TutorResponse> {
         const systemPrompt = this.constructSystemPrompt(context);
 
         // Convert chat messages to API format
@@ -44,30 +44,112 @@ class ChessTutorService {
             : [{ role: 'user' as const, content: 'Help me with this chess position!' }];
 
         try {
-            const response = await fetch(this.apiEndpoint, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                },
-                body: JSON.stringify({
-                    messages: apiMessages,
-                    systemPrompt
-                }),
-            });
-
-            if (!response.ok) {
-                throw new Error(`API error: ${response.status}`);
+            const reply = await this.request(apiMessages, systemPrompt, context?.fen, onMessage);
+            if (!context?.fen) {
+                return reply;
+            }
+
+            const checked = checkBoardHints(reply, context.fen);
+            if (checked.problems.length > 0) {
+                console.warn(`AI Tutor board hints: ${checked.problems.join('; ')}`);
+            }
+            if (!checked.illegalArrow) {
+                return checked.response;
+            }
+
+            // Ask once for a legal arrow; if it is still wrong, the arrow stays dropped.
+            // A failed retry shouldn't replace a reply the child has already read.
+            let retry: TutorResponse;
+            try {
+                retry = await this.request([
+                    ...apiMessages,
+                    { role: 'assistant', content: JSON.stringify(reply) },
+                    { role: 'user', content: buildIllegalMovePrompt(checked.illegalArrow, context.fen) }
+                ], systemPrompt, context.fen);
+            } catch (error) {
+                console.warn('AI Tutor re-ask failed, keeping the first reply:', error);
+                return checked.response;
+            }
+            if (isFallbackResponse(retry)) {
+                return checked.response;
             }
 
-            const data = await response.json();
-            return data as TutorResponse;
+            const rechecked = checkBoardHints(retry, context.fen);
+            if (rechecked.problems.length > 0) {
+                console.warn(`AI Tutor board hints after re-asking: ${rechecked.problems.join('; ')}`);
+            }
+            return rechecked.response;
         } catch (error: any) {
             console.error("AI Tutor Error:", error);
 
-            return {
-                message: "I'm having a little trouble thinking right now, but keep trying!",
-                mood: "thinking"
-            };
+            return SAFE_TUTOR_RESPONSE;
+        }
+    }
+
+    private async request(apiMessages: ChatMessage[], systemPrompt: string, fen?: string, onMessage?: (partialMessage: string) => void): Promise<TutorResponse> {
+        const response = await fetch(this.apiEndpoint, {
+            method: 'POST',
+            headers: {
+                'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({
+                messages: apiMessages,
+                systemPrompt,
+                fen, // Lets the server answer the model's board tool calls
+                stream: !!onMessage
+            }),
+        });
+
+        if (!response.ok) {
+            throw new Error(`API error: ${response.status}`);
+        }
+
+        // Servers that don't stream still answer with plain JSON
+        const isStream = response.headers?.get('Content-Type')?.includes('text/event-stream');
+        if (onMessage && isStream && response.body) {
+            return await this.readStream(response.body, onMessage);
+        }
+
+        return this.checkResponse(await response.json());
+    }
+
+    // The server already checks replies, but never trust the wire: bad data becomes the safe message
+    private checkResponse(data: unknown): TutorResponse {
+        const result = parseTutorResponse(data);
+        if (result.success) {
+            return result.data;
+        }
+
+        this.schemaFallbacks++;
+        console.warn(`AI Tutor schema fallback #${this.schemaFallbacks}: ${result.errors.join('; ')}`);
+        return SAFE_TUTOR_RESPONSE;
+    }
+
+    private async readStream(body: ReadableStream<Uint8Array>, onMessage: (partialMessage: string) => void): Promise<TutorResponse> {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+        let text = '';
+
+        for (;;) {
+            const { done, value } = await reader.read();
+            buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+            const parsed = parseSseEvents(done ? `${buffer}\n\n` : buffer);
+            buffer = parsed.rest;
+
+            for (const { event, data } of parsed.events) {
+                if (event === 'delta') {
+                    text += (data as { text: string }).text;
+                    onMessage(extractPartialMessage(text));
+                } else if (event === 'done') {
+                    return this.checkResponse(data);
+                }
+            }
+
+            if (done) {
+                throw new Error('Stream ended without a response');
+            }
         }
     }
 
@@ -78,13 +160,25 @@ class ChessTutorService {
         return this.chat([], context);
     }
 
+    // Engine-checked facts, so small models don't have to read the FEN themselves
+    private describePosition(context: GameContext): string {
+        try {
+            const analysis = analyzePosition(context.fen, { lastMove: context.lastMove });
+            const facts = describeAnalysis(analysis, context.fen).map(fact => `- ${fact}`).join('\n');
+            return `\n## Position Facts (checked by the chess engine)\n${facts}\n`;
+        } catch (error) {
+            console.warn('Could not analyze position for the tutor:', error);
+            return '';
+        }
+    }
+
     private constructSystemPrompt(context?: GameContext): string {
         const studentInfo = context?.studentContext
             ? `\n## What You Know About This Student\n${context.studentContext}\n`
             : '';
 
         const boardInfo = context?.fen
-            ? `\nCurrent Board (FEN): ${context.fen}\nLast Move: ${context.lastMove || "None"}`
+            ? `\nCurrent Board (FEN): ${context.fen}\nLast Move: ${context.lastMove || "None"}\n${this.describePosition(context)}`
             : '';
 
         return `
@@ -98,6 +192,7 @@ Instructions:
 1. Be encouraging, concise, and use simple words.
 2. If the user made a mistake, explain WHY plainly (no complex notation).
 3. Reference what you know about the student's strengths and struggles if relevant.
+   Trust the Position Facts over your own reading of the FEN; only suggest moves listed there.
 4. Keep responses SHORT - 1-3 sentences max for young learners.
 5. Identify NEW facts about the student based on this interaction (e.g., "Student struggles with knights", "Student likes visual hints") and include them in 'learnedFacts'.
 6. Always respond with valid JSON.
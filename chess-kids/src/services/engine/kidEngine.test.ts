@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { Chess } from 'chess.js';
+import { chooseMove, evaluatePosition } from './kidEngine';
+
+const neverBlunder = { blunderRate: 0, random: () => 0 };
+
+describe('evaluatePosition', () => {
+    it('scores the starting position the same for both sides', () => {
+        const white = evaluatePosition(new Chess());
+        const black = evaluatePosition(new Chess('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR b KQkq - 0 1'));
+        expect(white).toBe(black);
+    });
+
+    it('counts material for the side to move', () => {
+        // White is a queen up
+        const score = evaluatePosition(new Chess('4k3/8/8/8/8/8/8/3QK3 w - - 0 1'));
+        expect(score).toBeGreaterThan(800);
+    });
+});
+
+describe('chooseMove', () => {
+    it('takes a hanging queen', () => {
+        const move = chooseMove('4k3/8/8/3q4/8/8/3R4/4K3 w - - 0 1', neverBlunder);
+        expect(move).toMatchObject({ from: 'd2', to: 'd5' });
+    });
+
+    it('finds a mate in one', () => {
+        const move = chooseMove('6k1/5ppp/8/8/8/8/8/3R2K1 w - - 0 1', neverBlunder);
+        expect(move?.san).toBe('Rd8#');
+    });
+
+    it('does not leave its queen to be captured', () => {
+        // The black queen is attacked by a pawn and must move away
+        const move = chooseMove('4k3/8/8/3q4/4P3/8/8/4K3 b - - 0 1', { ...neverBlunder, depth: 2 });
+        expect(move?.from).toBe('d5');
+    });
+
+    it('plays a random legal move when it blunders', () => {
+        const fen = '4k3/8/8/3q4/8/8/3R4/4K3 w - - 0 1';
+        const move = chooseMove(fen, { blunderRate: 1, random: () => 0.99 });
+
+        expect(move).not.toBeNull();
+        expect(() => new Chess(fen).move({ from: move!.from, to: move!.to })).not.toThrow();
+    });
+
+    it('returns null when the game is over', () => {
+        expect(chooseMove('3R2k1/5ppp/8/8/8/8/8/6K1 b - - 1 1', neverBlunder)).toBeNull();
+    });
+});
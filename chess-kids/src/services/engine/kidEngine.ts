@@ -0,0 +1,140 @@
+/**
+ * Kid Engine - a small, beatable chess opponent
+ *
+ * Plain legal-move search on top of chess.js with a material + mobility
+ * evaluation. Everything runs in the browser, so free play works offline.
+ * Strength is tuned with the search depth and a "blunder rate": the chance
+ * that the engine ignores its search and plays a random legal move.
+ */
+
+import { Chess, type Move, type PieceSymbol } from 'chess.js';
+
+export interface EngineOptions {
+    depth?: number;          // Plies to search (1 = only look at its own move)
+    blunderRate?: number;    // 0..1 chance of playing a random move instead
+    random?: () => number;   // Injectable for tests
+}
+
+export interface EngineMove {
+    from: string;
+    to: string;
+    promotion?: string;
+    san: string;
+}
+
+export const KID_ENGINE_DEFAULTS: Required<Omit<EngineOptions, 'random'>> = {
+    depth: 2,
+    blunderRate: 0.25,
+};
+
+// Strength for each adaptive opponent level (see memoryService.getOpponentLevel)
+export const OPPONENT_LEVELS: Record<number, EngineOptions> = {
+    1: { depth: 1, blunderRate: 0.6 },
+    2: { depth: 1, blunderRate: 0.35 },
+    3: { depth: 2, blunderRate: 0.25 },
+    4: { depth: 2, blunderRate: 0.1 },
+    5: { depth: 2, blunderRate: 0 },
+};
+
+export function getOpponentOptions(level: number): EngineOptions {
+    return OPPONENT_LEVELS[level] || KID_ENGINE_DEFAULTS;
+}
+
+const PIECE_VALUES: Record<PieceSymbol, number> = {
+    p: 100,
+    n: 300,
+    b: 300,
+    r: 500,
+    q: 900,
+    k: 0,
+};
+
+const MOBILITY_WEIGHT = 2;
+const MATE_SCORE = 100000;
+
+// Captures first so alpha-beta cuts more of the tree
+function orderMoves(moves: Move[]): Move[] {
+    const captureValue = (move: Move) => (move.captured ? PIECE_VALUES[move.captured] : 0);
+    return [...moves].sort((a, b) => captureValue(b) - captureValue(a));
+}
+
+/**
+ * Scores the position for the side to move: material balance plus a small
+ * bonus for every legal move available.
+ */
+export function evaluatePosition(game: Chess): number {
+    const side = game.turn();
+    let material = 0;
+
+    for (const row of game.board()) {
+        for (const square of row) {
+            if (!square) continue;
+            const value = PIECE_VALUES[square.type];
+            material += square.color === side ? value : -value;
+        }
+    }
+
+    return material + game.moves().length * MOBILITY_WEIGHT;
+}
+
+function search(game: Chess, depth: number, alpha: number, beta: number, ply: number): number {
+    const moves = game.moves({ verbose: true });
+
+    if (moves.length === 0) {
+        // Prefer faster mates and slower losses
+        return game.inCheck() ? -MATE_SCORE + ply : 0;
+    }
+    if (game.isDraw()) return 0;
+    if (depth === 0) return evaluatePosition(game);
+
+    let best = -Infinity;
+    for (const move of orderMoves(moves)) {
+        game.move(move);
+        const score = -search(game, depth - 1, -beta, -alpha, ply + 1);
+        game.undo();
+
+        best = Math.max(best, score);
+        alpha = Math.max(alpha, score);
+        if (alpha >= beta) break;
+    }
+    return best;
+}
+
+function toEngineMove(move: Move): EngineMove {
+    return { from: move.from, to: move.to, promotion: move.promotion, san: move.san };
+}
+
+/**
+ * Picks a move for the side to move in `fen`. Returns null when the game is over.
+ */
+export function chooseMove(fen: string, options: EngineOptions = {}): EngineMove | null {
+    const { depth, blunderRate } = { ...KID_ENGINE_DEFAULTS, ...options };
+    const random = options.random || Math.random;
+
+    const game = new Chess(fen, { skipValidation: true });
+    const moves = game.moves({ verbose: true });
+    if (moves.length === 0) return null;
+
+    if (random() < blunderRate) {
+        return toEngineMove(moves[Math.floor(random() * moves.length)]);
+    }
+
+    let bestScore = -Infinity;
+    let bestMoves: Move[] = [];
+
+    for (const move of orderMoves(moves)) {
+        game.move(move);
+        const score = -search(game, Math.max(0, depth - 1), -Infinity, -bestScore + 1, 1);
+        game.undo();
+
+        if (score > bestScore) {
+            bestScore = score;
+            bestMoves = [move];
+        } else if (score === bestScore) {
+            bestMoves.push(move);
+        }
+    }
+
+    // Vary play between equally good moves so games don't repeat
+    return toEngineMove(bestMoves[Math.floor(random() * bestMoves.length)]);
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { analyzePosition, describeAnalysis, findHangingPieces, getLegalMovesFrom } from './positionAnalysis';
+
+describe('findHangingPieces', () => {
+    it('finds a piece that can be taken for free', () => {
+        // The black queen on d5 is attacked by the e4 pawn and the d2 rook; the pawn has no defender
+        const hanging = findHangingPieces('4k3/8/8/3q4/4P3/8/3R4/4K3 w - - 0 1');
+        expect(hanging.map((piece) => piece.square)).toEqual(['d5', 'e4']);
+        expect(hanging[0]).toMatchObject({ type: 'q', color: 'b' });
+        expect(hanging[0].attackers.sort()).toEqual(['d2', 'e4']);
+    });
+
+    it('ignores a defended piece attacked by something more valuable', () => {
+        // The pawn on e5 is defended by d6 and only the queen attacks it
+        expect(findHangingPieces('4k3/8/3p4/4p3/8/8/8/4QK2 w - - 0 1')).toEqual([]);
+    });
+});
+
+describe('analyzePosition', () => {
+    it('lists the moves of the only piece on a lesson board', () => {
+        const analysis = analyzePosition('8/8/8/8/3N4/8/8/8 w - - 0 1');
+        expect(analysis.focus).toMatchObject({ square: 'd4', type: 'n' });
+        expect(analysis.focusMoves.sort()).toEqual(['b3', 'b5', 'c2', 'c6', 'e2', 'e6', 'f3', 'f5']);
+    });
+
+    it('focuses on the piece that just moved, even when it is not its turn', () => {
+        const analysis = analyzePosition('rnbqkbnr/pppppppp/8/8/4P3/8/PPPP1PPP/RNBQKBNR b KQkq - 0 1', { lastMove: 'e2-e4' });
+        expect(analysis.turn).toBe('b');
+        expect(analysis.focus).toMatchObject({ square: 'e4', type: 'p', color: 'w' });
+        expect(analysis.focusMoves).toEqual(['e5']);
+        expect(getLegalMovesFrom('8/8/8/8/8/8/8/8 w - - 0 1', 'e4')).toEqual([]);
+    });
+
+    it('finds checks and a mate in one', () => {
+        const analysis = analyzePosition('6k1/5ppp/8/8/8/8/8/3R2K1 w - - 0 1');
+        expect(analysis.checkingMoves).toEqual(['Rd8#']);
+        expect(analysis.bestMove?.san).toBe('Rd8#');
+        expect(analysis.inCheck).toBe(false);
+    });
+});
+
+describe('describeAnalysis', () => {
+    it('turns the analysis into plain sentences', () => {
+        const fen = '4k3/8/8/3q4/4P3/8/3R4/4K3 w - - 0 1';
+        const facts = describeAnalysis(analyzePosition(fen, { lastMove: 'd1-d2' }), fen);
+
+        expect(facts[0]).toBe("It is White's turn.");
+        expect(facts).toContain('The white rook on d2 can move to: d3, d4, d5, e2, f2, g2, h2, d1, c2, b2, a2.');
+        expect(facts).toContain('The black queen on d5 is in danger: it can be captured by the pawn on e4 or the rook on d2.');
+        expect(facts).toContain('A good move for White is Rxd5 (rook from d2 to d5).');
+    });
+
+    it('says when the game is already over', () => {
+        const fen = '3R2k1/5ppp/8/8/8/8/8/6K1 b - - 1 1';
+        expect(describeAnalysis(analyzePosition(fen), fen)).toEqual([
+            "It is Black's turn.",
+            'Black is checkmated. The game is over.',
+        ]);
+    });
+});
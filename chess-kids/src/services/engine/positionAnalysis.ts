@@ -0,0 +1,193 @@
+/**
+ * Position Analysis - facts about the board for Gloop's prompt
+ *
+ * Small local models misread FEN strings, so instead of leaving the
+ * position to the model we work out the important facts with chess.js and
+ * the kid engine and hand them over in plain language.
+ */
+
+import { Chess, type Color, type Move, type PieceSymbol, type Square } from 'chess.js';
+import { chooseMove, type EngineMove } from './kidEngine';
+
+export interface PieceOnSquare {
+    square: string;
+    type: PieceSymbol;
+    color: Color;
+}
+
+export interface HangingPiece extends PieceOnSquare {
+    attackers: string[]; // Squares of the enemy pieces that can capture it
+}
+
+export interface PositionAnalysis {
+    turn: Color;
+    focus: PieceOnSquare | null; // The piece the child is most likely asking about
+    focusMoves: string[];        // Squares the focus piece can move to
+    hangingPieces: HangingPiece[];
+    inCheck: boolean;
+    isCheckmate: boolean;
+    checkingMoves: string[];     // SAN moves for the side to move that give check
+    bestMove: EngineMove | null;
+}
+
+export interface AnalysisOptions {
+    lastMove?: string; // "e2-e4"; the piece that just moved becomes the focus
+    depth?: number;    // Plies for the best-move search
+}
+
+const ANALYSIS_DEPTH = 2;
+const MAX_CHECKING_MOVES = 5;
+
+const PIECE_NAMES: Record<PieceSymbol, string> = {
+    p: 'pawn',
+    n: 'knight',
+    b: 'bishop',
+    r: 'rook',
+    q: 'queen',
+    k: 'king',
+};
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 0 };
+
+const COLOR_NAMES: Record<Color, string> = { w: 'White', b: 'Black' };
+
+// Lesson boards may have no kings, so positions are never validated
+const loadGame = (fen: string) => new Chess(fen, { skipValidation: true });
+
+// The same position with the other side to move (en passant no longer applies)
+function withTurn(fen: string, color: Color): string {
+    const fields = fen.split(' ');
+    if (fields[1] === color) return fen;
+    fields[1] = color;
+    if (fields[3]) fields[3] = '-';
+    return fields.join(' ');
+}
+
+/**
+ * Legal moves of the piece on a square, whichever side it belongs to, so the
+ * piece that just moved can be described even when it isn't its turn.
+ */
+export function getLegalMovesFrom(fen: string, from: string): Move[] {
+    const piece = loadGame(fen).get(from as Square);
+    if (!piece) return [];
+    try {
+        return loadGame(withTurn(fen, piece.color)).moves({ square: from as Square, verbose: true });
+    } catch {
+        return [];
+    }
+}
+
+/** Every legal move for both sides, as if each were the one to move. */
+export function getMovesForBothSides(fen: string): Move[] {
+    return (['w', 'b'] as const).flatMap((color) => {
+        try {
+            return loadGame(withTurn(fen, color)).moves({ verbose: true });
+        } catch {
+            return [];
+        }
+    });
+}
+
+function getPieces(game: Chess): PieceOnSquare[] {
+    return game.board().flat()
+        .filter((piece) => piece !== null)
+        .map((piece) => ({ square: piece.square, type: piece.type, color: piece.color }));
+}
+
+/**
+ * Pieces that can be captured for free or for less than they are worth:
+ * attacked and undefended, or attacked by a cheaper piece. Kings are left out.
+ */
+export function findHangingPieces(fen: string): HangingPiece[] {
+    const game = loadGame(fen);
+
+    return getPieces(game).flatMap((piece) => {
+        if (piece.type === 'k') return [];
+
+        const enemy = piece.color === 'w' ? 'b' : 'w';
+        const attackers = game.attackers(piece.square as Square, enemy);
+        if (attackers.length === 0) return [];
+
+        const isDefended = game.attackers(piece.square as Square, piece.color).length > 0;
+        const cheapestAttacker = Math.min(...attackers.map((square) => PIECE_VALUES[game.get(square)!.type] || 100));
+        if (isDefended && cheapestAttacker >= PIECE_VALUES[piece.type]) return [];
+
+        return [{ ...piece, attackers }];
+    });
+}
+
+// The piece that just moved, or the only piece of the side to move on a lesson board
+function findFocus(game: Chess, lastMove?: string): PieceOnSquare | null {
+    const target = lastMove?.split('-')[1];
+    const moved = target ? game.get(target as Square) : undefined;
+    if (target && moved) return { square: target, type: moved.type, color: moved.color };
+
+    const own = getPieces(game).filter((piece) => piece.color === game.turn());
+    return own.length === 1 ? own[0] : null;
+}
+
+export function analyzePosition(fen: string, options: AnalysisOptions = {}): PositionAnalysis {
+    const game = loadGame(fen);
+    const focus = findFocus(game, options.lastMove);
+    const moves = game.moves({ verbose: true });
+
+    return {
+        turn: game.turn(),
+        focus,
+        focusMoves: focus ? [...new Set(getLegalMovesFrom(fen, focus.square).map((move) => move.to))] : [],
+        hangingPieces: findHangingPieces(fen),
+        inCheck: game.inCheck(),
+        isCheckmate: game.isCheckmate(),
+        checkingMoves: moves.filter((move) => /[+#]$/.test(move.san)).slice(0, MAX_CHECKING_MOVES).map((move) => move.san),
+        bestMove: chooseMove(fen, { depth: options.depth ?? ANALYSIS_DEPTH, blunderRate: 0, random: () => 0 }),
+    };
+}
+
+const describePiece = (piece: PieceOnSquare) => `the ${COLOR_NAMES[piece.color].toLowerCase()} ${PIECE_NAMES[piece.type]} on ${piece.square}`;
+const capitalize = (text: string) => `${text[0].toUpperCase()}${text.slice(1)}`;
+
+/** The analysis as short plain-language sentences, one fact each. */
+export function describeAnalysis(analysis: PositionAnalysis, fen: string): string[] {
+    const game = loadGame(fen);
+    const side = COLOR_NAMES[analysis.turn];
+    const facts = [`It is ${side}'s turn.`];
+
+    if (analysis.isCheckmate) {
+        facts.push(`${side} is checkmated. The game is over.`);
+        return facts;
+    }
+    if (analysis.inCheck) {
+        facts.push(`${side}'s king is in check and must get out of it.`);
+    }
+
+    if (analysis.focus) {
+        const piece = capitalize(describePiece(analysis.focus));
+        facts.push(analysis.focusMoves.length > 0
+            ? `${piece} can move to: ${analysis.focusMoves.join(', ')}.`
+            : `${piece} cannot move right now.`);
+    }
+
+    analysis.hangingPieces.forEach((hanging) => {
+        const attackers = hanging.attackers
+            .map((square) => `the ${PIECE_NAMES[game.get(square as Square)!.type]} on ${square}`)
+            .join(' or ');
+        facts.push(`${capitalize(describePiece(hanging))} is in danger: it can be captured by ${attackers}.`);
+    });
+
+    if (analysis.checkingMoves.length > 0) {
+        facts.push(`${side} can give check with: ${analysis.checkingMoves.join(', ')}.`);
+    }
+
+    if (analysis.bestMove) {
+        const { from, to, san } = analysis.bestMove;
+        const mover = game.get(from as Square);
+        const name = mover ? PIECE_NAMES[mover.type] : 'piece';
+        facts.push(san.endsWith('#')
+            ? `${san} (${name} from ${from} to ${to}) is checkmate!`
+            : `A good move for ${side} is ${san} (${name} from ${from} to ${to}).`);
+    } else if (!analysis.inCheck) {
+        facts.push(`${side} has no legal moves.`);
+    }
+
+    return facts;
+}
@@ -105,6 +105,72 @@ describe('MemoryService', () => {
         expect(context).toContain('Never call a piece "bad"');
     });
 
+    it('includes facts added after the summary was first built', () => {
+        memoryService.getContextForAI(profileId);
+        memoryService.addFact(profileId, 'Finds back rank puzzles tricky', 'skill-gap', 'puzzle-1');
+
+        expect(memoryService.getContextForAI(profileId)).toContain('Finds back rank puzzles tricky');
+    });
+
+    it('records failed objectives in the current session once', () => {
+        memoryService.startSession(profileId, 0, 'puzzles');
+        memoryService.recordObjectiveFailed(profileId, 'puzzle-1');
+        memoryService.recordObjectiveFailed(profileId, 'puzzle-1');
+
+        const session = memoryService.getTodaySessions().sessions.find(s => s.profileId === profileId);
+        expect(session?.activity).toBe('puzzles');
+        expect(session?.objectivesFailed).toEqual(['puzzle-1']);
+    });
+
+    it('appends notes to the current session', () => {
+        memoryService.startSession(profileId, 10);
+        memoryService.addSessionNote(profileId, 'Won by checkmate');
+        memoryService.addSessionNote(profileId, 'Draw by stalemate');
+
+        const session = memoryService.getTodaySessions().sessions.find(s => s.profileId === profileId);
+        expect(session?.notes).toBe('Won by checkmate\nDraw by stalemate');
+    });
+
+    it('starts new students at the default opponent level', () => {
+        expect(memoryService.getOpponentLevel(profileId)).toEqual({ level: 2, gamesPlayed: 0 });
+    });
+
+    it('adjusts the opponent level after wins and losses', () => {
+        memoryService.recordGameResult(profileId, 'win', 2, 'lesson-10');
+        expect(memoryService.getOpponentLevel(profileId)).toMatchObject({ level: 3, lastPlayedLevel: 2 });
+
+        memoryService.recordGameResult(profileId, 'loss', 3, 'lesson-10');
+        memoryService.recordGameResult(profileId, 'loss', 2, 'lesson-10');
+        expect(memoryService.getOpponentLevel(profileId)).toEqual({ level: 1, lastPlayedLevel: 2, gamesPlayed: 3 });
+
+        memoryService.recordGameResult(profileId, 'loss', 1, 'lesson-10');
+        expect(memoryService.getOpponentLevel(profileId).level).toBe(1);
+    });
+
+    it('stores game results as milestone and skill-gap facts', () => {
+        const win = memoryService.recordGameResult(profileId, 'win', 2, 'lesson-10');
+        const loss = memoryService.recordGameResult(profileId, 'loss', 3, 'lesson-10');
+
+        expect(win.category).toBe('milestone');
+        expect(loss.category).toBe('skill-gap');
+        expect(loss.fact).toBe('Lost to the computer at level 3');
+        expect(memoryService.getStudentSummary(profileId).summary.lessonsCompleted).toBe(0);
+    });
+
+    it('tells the tutor when the opponent was made easier', () => {
+        memoryService.recordGameResult(profileId, 'loss', 2, 'lesson-10');
+
+        const context = memoryService.getContextForAI(profileId);
+        expect(context).toContain('## Computer Opponent');
+        expect(context).toContain('- Level: 1 of 5 (made a little easier after the last game)');
+    });
+
+    it('leaves the opponent out for students who never played the computer', () => {
+        memoryService.addFact(profileId, 'Completed lesson 1', 'milestone', 'lesson-1');
+
+        expect(memoryService.getContextForAI(profileId)).not.toContain('## Computer Opponent');
+    });
+
     it('handles fact decay (mocking time)', () => {
         vi.useFakeTimers();
 
@@ -9,6 +9,8 @@ import type {
     TacitKnowledge,
     DecayTier,
     TieredFact,
+    GameResult,
+    OpponentLevel,
 } from './memoryTypes';
 
 const STORAGE_KEY = 'chess-kids-memory';
@@ -23,6 +25,23 @@ const DECAY_CONFIG = {
     FREQUENCY_RESISTANCE_THRESHOLD: 5, // High access count resists decay
 };
 
+// ============================================
+// Computer Opponent Configuration
+// ============================================
+
+const OPPONENT_CONFIG = {
+    MIN_LEVEL: 1,
+    MAX_LEVEL: 5,
+    START_LEVEL: 2,
+    GAME_ENTITY: 'games/computer',
+};
+
+const RESULT_STEP: Record<GameResult, number> = {
+    win: 1,
+    loss: -1,
+    draw: 0,
+};
+
 // ============================================
 // Utility Functions
 // ============================================
@@ -152,6 +171,8 @@ class MemoryService {
         };
 
         this.getStudentFacts(profileId).facts.push(newFact);
+        // The cached summary no longer reflects this student's facts
+        delete this.store.summaries[profileId];
         this.saveToStorage();
         return newFact;
     }
@@ -226,7 +247,7 @@ class MemoryService {
                 recentStrengths: strengths.slice(0, 5),
                 recentGaps: gaps.slice(0, 5),
                 preferredHintStyle: hintStyle,
-                lessonsCompleted: hotWarmFacts.filter(f => f.category === 'milestone').length,
+                lessonsCompleted: hotWarmFacts.filter(f => f.category === 'milestone' && !f.relatedEntities.includes(OPPONENT_CONFIG.GAME_ENTITY)).length,
                 totalStars: 0, // Will be synced from ProfileContext
             },
         };
@@ -248,10 +269,11 @@ class MemoryService {
         return this.store.sessions[today];
     }
 
-    startSession(profileId: string, lessonId: number): SessionEntry {
+    startSession(profileId: string, lessonId: number, activity?: string): SessionEntry {
         const session: SessionEntry = {
             profileId,
             lessonId,
+            activity,
             startTime: new Date().toISOString(),
             objectivesCompleted: [],
             objectivesFailed: [],
@@ -310,6 +332,73 @@ class MemoryService {
         }
     }
 
+    recordObjectiveFailed(profileId: string, objectiveId: string): void {
+        const todaySessions = this.getTodaySessions().sessions;
+        const currentSession = todaySessions.find(
+            s => s.profileId === profileId && !s.endTime
+        );
+
+        if (currentSession && !currentSession.objectivesFailed.includes(objectiveId)) {
+            currentSession.objectivesFailed.push(objectiveId);
+            this.saveToStorage();
+        }
+    }
+
+    addSessionNote(profileId: string, note: string): void {
+        const todaySessions = this.getTodaySessions().sessions;
+        const currentSession = todaySessions.find(
+            s => s.profileId === profileId && !s.endTime
+        );
+
+        if (currentSession) {
+            currentSession.notes = currentSession.notes ? `${currentSession.notes}\n${note}` : note;
+            this.saveToStorage();
+        }
+    }
+
+    // ============================================
+    // Computer Opponent
+    // ============================================
+
+    recordGameResult(profileId: string, result: GameResult, level: number, source: string): AtomicFact {
+        const text = {
+            win: `Beat the computer at level ${level}`,
+            loss: `Lost to the computer at level ${level}`,
+            draw: `Drew with the computer at level ${level}`,
+        }[result];
+
+        return this.addFact(
+            profileId,
+            text,
+            result === 'loss' ? 'skill-gap' : 'milestone',
+            source,
+            [OPPONENT_CONFIG.GAME_ENTITY, `opponent/level-${level}`, `result/${result}`]
+        );
+    }
+
+    /**
+     * Picks the computer's strength from the student's game history:
+     * one level up after a win, one down after a loss.
+     */
+    getOpponentLevel(profileId: string): OpponentLevel {
+        const games = this.getActiveFacts(profileId)
+            .filter(f => f.relatedEntities.includes(OPPONENT_CONFIG.GAME_ENTITY));
+
+        const lastGame = games[games.length - 1];
+        if (!lastGame) {
+            return { level: OPPONENT_CONFIG.START_LEVEL, gamesPlayed: 0 };
+        }
+
+        const entityValue = (prefix: string) =>
+            lastGame.relatedEntities.find(e => e.startsWith(prefix))?.slice(prefix.length);
+
+        const lastPlayedLevel = Number(entityValue('opponent/level-')) || OPPONENT_CONFIG.START_LEVEL;
+        const step = RESULT_STEP[entityValue('result/') as GameResult] ?? 0;
+        const level = Math.min(OPPONENT_CONFIG.MAX_LEVEL, Math.max(OPPONENT_CONFIG.MIN_LEVEL, lastPlayedLevel + step));
+
+        return { level, lastPlayedLevel, gamesPlayed: games.length };
+    }
+
     // ============================================
     // Tacit Knowledge (Layer 3)
     // ============================================
@@ -361,6 +450,19 @@ class MemoryService {
             context += '\n';
         }
 
+        // Only for students who have played the computer
+        const opponent = this.getOpponentLevel(profileId);
+        if (opponent.gamesPlayed > 0) {
+            context += `## Computer Opponent\n`;
+            context += `- Level: ${opponent.level} of ${OPPONENT_CONFIG.MAX_LEVEL}`;
+            if (opponent.lastPlayedLevel !== undefined && opponent.level !== opponent.lastPlayedLevel) {
+                context += opponent.level < opponent.lastPlayedLevel
+                    ? ' (made a little easier after the last game)'
+                    : ' (made a little harder after the last game)';
+            }
+            context += '\n\n';
+        }
+
         context += `## Tutor Guidelines\n`;
         tacit.rules.forEach(r => {
             context += `- ${r}\n`;
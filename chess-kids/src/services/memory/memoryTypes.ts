@@ -26,6 +26,18 @@ export interface AtomicFact {
     accessCount: number;
 }
 
+// ============================================
+// Computer Opponent
+// ============================================
+
+export type GameResult = 'win' | 'loss' | 'draw';
+
+export interface OpponentLevel {
+    level: number;              // Strength to use for the next game
+    lastPlayedLevel?: number;   // Strength of the previous game, if any
+    gamesPlayed: number;
+}
+
 // ============================================
 // Student Knowledge Graph (Layer 1)
 // ============================================
@@ -61,6 +73,7 @@ export interface TutorInteraction {
 export interface SessionEntry {
     profileId: string;
     lessonId: number;
+    activity?: string;  // Non-lesson activity, e.g. "puzzles"
     startTime: string;
     endTime?: string;
     objectivesCompleted: string[];
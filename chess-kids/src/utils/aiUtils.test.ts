@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { extractJson, validateTutorRequest } from './aiUtils';
+import { extractJson, validateTutorRequest, extractPartialMessage, formatSseEvent, parseSseEvents, replyTextDeltas, type ReplyStreamPart } from './aiUtils';
 
 describe('extractJson', () => {
   it('parses valid JSON string', () => {
@@ -56,7 +56,101 @@ describe('validateTutorRequest', () => {
     expect(validateTutorRequest({ messages: 'not-array' })).toEqual({ valid: false, error: 'Messages must be an array' });
   });
 
+  it('accepts a FEN string and rejects anything else', () => {
+    const messages = [{ role: 'user', content: 'hi' }];
+    expect(validateTutorRequest({ messages, fen: '8/8/8/8/8/8/8/8 w - - 0 1' })).toEqual({ valid: true });
+    expect(validateTutorRequest({ messages, fen: 42 })).toEqual({ valid: false, error: 'FEN must be a string' });
+  });
+
   it('fails if messages array is empty', () => {
     expect(validateTutorRequest({ messages: [] })).toEqual({ valid: false, error: 'Messages cannot be empty' });
   });
 });
+
+describe('extractPartialMessage', () => {
+  it('returns nothing until the message field starts', () => {
+    expect(extractPartialMessage('')).toBe('');
+    expect(extractPartialMessage('{"mo')).toBe('');
+  });
+
+  it('reads the message as far as it has streamed', () => {
+    expect(extractPartialMessage('{"message": "Great jo')).toBe('Great jo');
+    expect(extractPartialMessage('{"message": "Great job!", "mood": "enc')).toBe('Great job!');
+  });
+
+  it('decodes escapes and waits for ones that are cut off', () => {
+    expect(extractPartialMessage('{"message": "Say \\"hi\\"')).toBe('Say "hi"');
+    expect(extractPartialMessage('{"message": "Line\\')).toBe('Line');
+    expect(extractPartialMessage('{"message": "Caf\\u00e')).toBe('Caf');
+    expect(extractPartialMessage('{"message": "Caf\\u00e9')).toBe('Café');
+  });
+
+  it('finds the message inside a code block', () => {
+    expect(extractPartialMessage('```json\n{"message": "Hi')).toBe('Hi');
+  });
+
+  it('shows plain text replies as they are', () => {
+    expect(extractPartialMessage('Move your knight')).toBe('Move your knight');
+  });
+});
+
+describe('Server-Sent Events', () => {
+  it('round-trips events through format and parse', () => {
+    const text = formatSseEvent('delta', { text: 'Hi' }) + formatSseEvent('done', { message: 'Hi', mood: 'encouraging' });
+    expect(parseSseEvents(text)).toEqual({
+      events: [
+        { event: 'delta', data: { text: 'Hi' } },
+        { event: 'done', data: { message: 'Hi', mood: 'encouraging' } },
+      ],
+      rest: '',
+    });
+  });
+
+  it('keeps an unfinished event for the next chunk', () => {
+    const text = formatSseEvent('delta', { text: 'a' }) + 'event: delta\ndata: {"te';
+    const { events, rest } = parseSseEvents(text);
+    expect(events).toHaveLength(1);
+    expect(rest).toBe('event: delta\ndata: {"te');
+  });
+
+  it('skips malformed events', () => {
+    expect(parseSseEvents('event: delta\ndata: {oops\n\n').events).toEqual([]);
+  });
+});
+
+describe('replyTextDeltas', () => {
+  async function collect(parts: ReplyStreamPart[]): Promise<string[]> {
+    async function* stream() {
+      yield* parts;
+    }
+    const deltas: string[] = [];
+    for await (const delta of replyTextDeltas(stream())) deltas.push(delta);
+    return deltas;
+  }
+
+  it('drops text written before a tool call and streams the final JSON step', async () => {
+    const deltas = await collect([
+      { type: 'start-step' },
+      { type: 'text-delta', text: 'Let me ' },
+      { type: 'text-delta', text: 'check the board.' },
+      { type: 'tool-call' },
+      { type: 'finish-step' },
+      { type: 'start-step' },
+      { type: 'text-delta', text: ' {"mess' },
+      { type: 'text-delta', text: 'age": "Hi"}' },
+      { type: 'finish-step' },
+    ]);
+
+    expect(deltas).toEqual([' {"mess', 'age": "Hi"}']);
+  });
+
+  it('still sends a final answer that is not JSON', async () => {
+    const deltas = await collect([
+      { type: 'start-step' },
+      { type: 'text-delta', text: 'Great move!' },
+      { type: 'finish-step' },
+    ]);
+
+    expect(deltas).toEqual(['Great move!']);
+  });
+});
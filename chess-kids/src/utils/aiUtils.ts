@@ -55,5 +55,133 @@ export function validateTutorRequest(body: unknown): { valid: boolean; error?: s
         return { valid: false, error: 'Messages cannot be empty' };
     }
 
+    // Optional: the board the tutor's tools look at
+    if (b.fen !== undefined && typeof b.fen !== 'string') {
+        return { valid: false, error: 'FEN must be a string' };
+    }
+
     return { valid: true };
 }
+
+/**
+ * The "message" field of a tutor reply that is still streaming in, decoded as
+ * far as it has arrived. Replies that aren't JSON are shown as they are.
+ */
+export function extractPartialMessage(text: string): string {
+    const trimmed = text.trimStart();
+    if (!trimmed) {
+        return '';
+    }
+    if (!trimmed.startsWith('{') && !trimmed.startsWith('`')) {
+        return text;
+    }
+
+    const keyMatch = trimmed.match(/"message"\s*:\s*"/);
+    if (!keyMatch || keyMatch.index === undefined) {
+        return '';
+    }
+
+    // Copy the string body up to its closing quote (or the end of what we have)
+    const start = keyMatch.index + keyMatch[0].length;
+    let body = '';
+    for (let i = start; i < trimmed.length; i++) {
+        const char = trimmed[i];
+        if (char === '\\') {
+            const escape = trimmed.slice(i, trimmed[i + 1] === 'u' ? i + 6 : i + 2);
+            // Stop before an escape sequence that is cut off mid-stream
+            if (escape.length < (trimmed[i + 1] === 'u' ? 6 : 2)) break;
+            body += escape;
+            i += escape.length - 1;
+        } else if (char === '"') {
+            break;
+        } else {
+            body += char;
+        }
+    }
+
+    try {
+        return JSON.parse(`"${body}"`);
+    } catch {
+        return body;
+    }
+}
+
+// The parts of an AI SDK `fullStream` that decide which text belongs to the reply
+export interface ReplyStreamPart {
+    type: string;
+    text?: string;
+}
+
+/**
+ * Text deltas of the step that answers, read from an AI SDK `fullStream`.
+ * With tools, the model may write a few words before calling one. Each step's
+ * text is held back until it starts the JSON reply (then it streams) or calls
+ * a tool (then it is dropped), so the client only sees the final step's text,
+ * the same text the reply is parsed from.
+ */
+export async function* replyTextDeltas(parts: AsyncIterable<ReplyStreamPart>): AsyncGenerator<string> {
+    let pending = '';
+    let streaming = false;
+
+    for await (const part of parts) {
+        if (part.type === 'start-step') {
+            pending = '';
+            streaming = false;
+        } else if (part.type === 'text-delta' && part.text) {
+            if (streaming) {
+                yield part.text;
+                continue;
+            }
+            pending += part.text;
+            if (/^\s*[{`]/.test(pending)) {
+                streaming = true;
+                yield pending;
+                pending = '';
+            }
+        } else if (part.type === 'tool-call') {
+            pending = '';
+        } else if (part.type === 'finish-step' && pending) {
+            // A final answer that isn't JSON still reaches the client
+            yield pending;
+            pending = '';
+        }
+    }
+}
+
+/** One Server-Sent Event, ready to write to the response. */
+export function formatSseEvent(event: string, data: unknown): string {
+    return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+export interface SseEvent {
+    event: string;
+    data: unknown;
+}
+
+/**
+ * Splits a buffer of Server-Sent Events text into complete events. Whatever
+ * comes after the last blank line is returned as `rest` to prepend to the next chunk.
+ */
+export function parseSseEvents(buffer: string): { events: SseEvent[]; rest: string } {
+    const blocks = buffer.replace(/\r\n/g, '\n').split('\n\n');
+    const rest = blocks.pop() ?? '';
+    const events: SseEvent[] = [];
+
+    for (const block of blocks) {
+        let event = 'message';
+        const dataLines: string[] = [];
+        for (const line of block.split('\n')) {
+            if (line.startsWith('event:')) event = line.slice(6).trim();
+            else if (line.startsWith('data:')) dataLines.push(line.slice(5).trimStart());
+        }
+        if (dataLines.length === 0) continue;
+
+        try {
+            events.push({ event, data: JSON.parse(dataLines.join('\n')) });
+        } catch {
+            // Skip malformed events rather than dropping the whole stream
+        }
+    }
+
+    return { events, rest };
+}
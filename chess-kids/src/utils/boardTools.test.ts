@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { BOARD_TOOLS, getLegalMoves, isSquareAttacked, whatPieceIsOn, wouldMoveBeCheckmate, runBoardTool } from './boardTools';
+
+const START = 'rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1';
+const BACK_RANK = '6k1/5ppp/8/8/8/8/8/3R2K1 w - - 0 1';
+
+describe('boardTools', () => {
+  it('describes the piece on a square', () => {
+    expect(whatPieceIsOn(START, 'g1')).toEqual({ square: 'g1', piece: 'white knight' });
+    expect(whatPieceIsOn(START, ' E4 ')).toEqual({ square: 'e4', piece: null });
+    expect(whatPieceIsOn(START, 'z9')).toEqual({ error: '"z9" is not a square' });
+  });
+
+  it('lists legal moves for either side', () => {
+    expect(getLegalMoves(START, 'g1')).toEqual({ square: 'g1', piece: 'white knight', moves: ['f3', 'h3'] });
+    // Black's pawn even though it is White's turn
+    expect(getLegalMoves(START, 'e7').moves).toEqual(['e6', 'e5']);
+    expect(getLegalMoves('8/8/8/8/3N4/8/8/8 w - - 0 1', 'd4').moves).toHaveLength(8);
+  });
+
+  it('lists the attackers of a square by color', () => {
+    const result = isSquareAttacked('4k3/8/8/3q4/4P3/8/3R4/4K3 w - - 0 1', 'd5');
+    expect(result).toEqual({ square: 'd5', attackedByWhite: expect.arrayContaining(['e4', 'd2']), attackedByBlack: [] });
+  });
+
+  it('checks a move for checkmate in either notation', () => {
+    expect(wouldMoveBeCheckmate(BACK_RANK, 'd1-d8')).toEqual({ move: 'd1-d8', legal: true, san: 'Rd8#', check: true, checkmate: true });
+    expect(wouldMoveBeCheckmate(BACK_RANK, 'Rd7')).toMatchObject({ legal: true, check: false, checkmate: false });
+    expect(wouldMoveBeCheckmate(BACK_RANK, 'd1-e3')).toMatchObject({ legal: false, checkmate: false });
+  });
+
+  it('runs tools by name and reports unknown ones', () => {
+    expect(runBoardTool(START, 'whatPieceIsOn', { square: 'd1' })).toEqual({ square: 'd1', piece: 'white queen' });
+    expect(runBoardTool(START, 'castleNow', {})).toEqual({ error: 'Unknown tool "castleNow"' });
+    expect(BOARD_TOOLS.map((spec) => spec.name)).toEqual(['getLegalMoves', 'isSquareAttacked', 'whatPieceIsOn', 'wouldMoveBeCheckmate']);
+  });
+});
@@ -0,0 +1,157 @@
+/**
+ * Board tools Gloop can call while answering, so it can look the position up
+ * instead of guessing from the FEN. api/tutor.ts and server.js wrap these as
+ * AI SDK tools and run them against the FEN sent by tutorService.
+ */
+
+import { Chess, type Color, type PieceSymbol, type Square } from 'chess.js';
+
+export type BoardToolName = 'getLegalMoves' | 'isSquareAttacked' | 'whatPieceIsOn' | 'wouldMoveBeCheckmate';
+
+export interface BoardToolSpec {
+    name: BoardToolName;
+    description: string;
+    parameters: {
+        type: 'object';
+        properties: Record<string, { type: 'string'; description: string }>;
+        required: string[];
+        additionalProperties: false;
+    };
+}
+
+// One string argument each, so small local models can call them reliably
+const squareParameter = (description: string): BoardToolSpec['parameters'] => ({
+    type: 'object',
+    properties: { square: { type: 'string', description } },
+    required: ['square'],
+    additionalProperties: false,
+});
+
+export const BOARD_TOOLS: BoardToolSpec[] = [
+    {
+        name: 'getLegalMoves',
+        description: 'List the squares the piece on a square can legally move to. Works for either color.',
+        parameters: squareParameter('The square of the piece, like "e2"'),
+    },
+    {
+        name: 'isSquareAttacked',
+        description: 'Find which white and which black pieces attack a square.',
+        parameters: squareParameter('The square to check, like "f7"'),
+    },
+    {
+        name: 'whatPieceIsOn',
+        description: 'Say which piece, if any, stands on a square.',
+        parameters: squareParameter('The square to look at, like "d1"'),
+    },
+    {
+        name: 'wouldMoveBeCheckmate',
+        description: 'Check whether a move is legal and whether it gives check or checkmate.',
+        parameters: {
+            type: 'object',
+            properties: { move: { type: 'string', description: 'The move as "from-to", like "d1-d8", or in SAN, like "Rd8"' } },
+            required: ['move'],
+            additionalProperties: false,
+        },
+    },
+];
+
+// The AI SDK caps tool rounds per reply; this is plenty for a 1-3 sentence answer
+export const MAX_TOOL_STEPS = 5;
+
+const PIECE_NAMES: Record<PieceSymbol, string> = {
+    p: 'pawn',
+    n: 'knight',
+    b: 'bishop',
+    r: 'rook',
+    q: 'queen',
+    k: 'king',
+};
+
+const COLOR_NAMES: Record<Color, 'white' | 'black'> = { w: 'white', b: 'black' };
+
+const SQUARE_PATTERN = /^[a-h][1-8]$/;
+const ARROW_MOVE_PATTERN = /^([a-h][1-8])-([a-h][1-8])([qrbn])?$/;
+
+// Lesson boards may have no kings, so positions are never validated
+const loadGame = (fen: string) => new Chess(fen, { skipValidation: true });
+
+// The same position with the other side to move (en passant no longer applies)
+function withTurn(fen: string, color: Color): string {
+    const fields = fen.split(' ');
+    if (fields[1] === color) return fen;
+    fields[1] = color;
+    if (fields[3]) fields[3] = '-';
+    return fields.join(' ');
+}
+
+function readSquare(value: unknown): Square | null {
+    const square = typeof value === 'string' ? value.trim().toLowerCase() : '';
+    return SQUARE_PATTERN.test(square) ? square as Square : null;
+}
+
+const describePiece = (piece: { type: PieceSymbol; color: Color }) => `${COLOR_NAMES[piece.color]} ${PIECE_NAMES[piece.type]}`;
+
+export function whatPieceIsOn(fen: string, square: string) {
+    const target = readSquare(square);
+    if (!target) return { error: `"${square}" is not a square` };
+
+    const piece = loadGame(fen).get(target);
+    return { square: target, piece: piece ? describePiece(piece) : null };
+}
+
+export function getLegalMoves(fen: string, square: string) {
+    const from = readSquare(square);
+    if (!from) return { error: `"${square}" is not a square` };
+
+    const piece = loadGame(fen).get(from);
+    if (!piece) return { square: from, piece: null, moves: [] };
+
+    // Promotions list the same destination once per piece
+    const moves = loadGame(withTurn(fen, piece.color)).moves({ square: from, verbose: true });
+    return { square: from, piece: describePiece(piece), moves: [...new Set(moves.map((move) => move.to))] };
+}
+
+export function isSquareAttacked(fen: string, square: string) {
+    const target = readSquare(square);
+    if (!target) return { error: `"${square}" is not a square` };
+
+    const game = loadGame(fen);
+    return {
+        square: target,
+        attackedByWhite: game.attackers(target, 'w'),
+        attackedByBlack: game.attackers(target, 'b'),
+    };
+}
+
+export function wouldMoveBeCheckmate(fen: string, move: string) {
+    const text = move.trim();
+    const arrow = text.toLowerCase().match(ARROW_MOVE_PATTERN);
+
+    // "from-to" moves are played for the piece's own side, SAN for the side to move
+    const mover = arrow ? loadGame(fen).get(arrow[1] as Square) : undefined;
+    const game = loadGame(mover ? withTurn(fen, mover.color) : fen);
+    try {
+        const played = arrow
+            ? game.move({ from: arrow[1], to: arrow[2], promotion: arrow[3] ?? 'q' })
+            : game.move(text);
+        return { move: text, legal: true, san: played.san, check: game.inCheck(), checkmate: game.isCheckmate() };
+    } catch {
+        return { move: text, legal: false, check: false, checkmate: false };
+    }
+}
+
+/** Runs a tool by name with the model's arguments; unknown tools and bad arguments come back as `error`. */
+export function runBoardTool(fen: string, name: string, input: Record<string, unknown>) {
+    switch (name) {
+        case 'getLegalMoves':
+            return getLegalMoves(fen, String(input.square ?? ''));
+        case 'isSquareAttacked':
+            return isSquareAttacked(fen, String(input.square ?? ''));
+        case 'whatPieceIsOn':
+            return whatPieceIsOn(fen, String(input.square ?? ''));
+        case 'wouldMoveBeCheckmate':
+            return wouldMoveBeCheckmate(fen, String(input.move ?? ''));
+        default:
+            return { error: `Unknown tool "${name}"` };
+    }
+}
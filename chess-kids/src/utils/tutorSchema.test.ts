@@ -0,0 +1,79 @@
+import { describe, it, expect, vi } from 'vitest';
+import { extractJson } from './aiUtils';
+import { parseTutorResponse, buildRepairPrompt, resolveTutorResponse, isFallbackResponse, SAFE_TUTOR_RESPONSE, BUSY_TUTOR_RESPONSE } from './tutorSchema';
+
+describe('parseTutorResponse', () => {
+  it('accepts a full, well-formed reply', () => {
+    const reply = { message: 'Nice!', mood: 'celebrating', highlightSquare: 'e4', drawArrow: 'e2-e4', learnedFacts: ['Likes knights'] };
+    expect(parseTutorResponse(reply)).toEqual({ success: true, data: reply });
+  });
+
+  it('treats null and empty optional fields as missing', () => {
+    const result = parseTutorResponse({ message: 'Hi', mood: 'thinking', highlightSquare: null, drawArrow: '', learnedFacts: null });
+    expect(result).toEqual({ success: true, data: { message: 'Hi', mood: 'thinking' } });
+  });
+
+  it('tidies squares and arrows before checking them', () => {
+    const result = parseTutorResponse({ message: 'Hi', mood: 'thinking', highlightSquare: ' E4 ', drawArrow: 'G1-F3' });
+    expect(result).toMatchObject({ success: true, data: { highlightSquare: 'e4', drawArrow: 'g1-f3' } });
+  });
+
+  it('rejects unknown moods and bad squares or arrows', () => {
+    const result = parseTutorResponse({ message: 'Hi', mood: 'grumpy', highlightSquare: 'z9', drawArrow: 'e2 to e4' });
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.errors).toHaveLength(3);
+      expect(result.errors[0]).toContain('"mood"');
+    }
+  });
+
+  it('rejects missing messages, non-objects and bad fact lists', () => {
+    expect(parseTutorResponse({ mood: 'thinking' }).success).toBe(false);
+    expect(parseTutorResponse('Move your knight').success).toBe(false);
+    expect(parseTutorResponse(null).success).toBe(false);
+    expect(parseTutorResponse({ message: 'Hi', mood: 'thinking', learnedFacts: [1, 2] }).success).toBe(false);
+  });
+});
+
+describe('resolveTutorResponse', () => {
+  it('uses a valid reply without repairing it', async () => {
+    const repair = vi.fn();
+    const result = await resolveTutorResponse('{"message": "Hi", "mood": "thinking"}', extractJson, repair);
+    expect(result).toEqual({ response: { message: 'Hi', mood: 'thinking' }, outcome: 'valid', errors: [] });
+    expect(repair).not.toHaveBeenCalled();
+  });
+
+  it('asks once for a repair and uses the fixed reply', async () => {
+    const repair = vi.fn().mockResolvedValue('{"message": "Hi", "mood": "surprised"}');
+    const result = await resolveTutorResponse('{"message": "Hi", "mood": "happy"}', extractJson, repair);
+
+    expect(repair).toHaveBeenCalledTimes(1);
+    expect(repair.mock.calls[0][0]).toBe(buildRepairPrompt(['"mood" must be one of encouraging, thinking, surprised, celebrating']));
+    expect(result.outcome).toBe('repaired');
+    expect(result.response.mood).toBe('surprised');
+  });
+
+  it('falls back to the safe message when the repair fails too', async () => {
+    const repair = vi.fn().mockResolvedValue('Sorry, here you go: move the knight');
+    const result = await resolveTutorResponse('Move the knight', extractJson, repair);
+
+    expect(repair).toHaveBeenCalledTimes(1);
+    expect(result.outcome).toBe('fallback');
+    expect(result.response).toEqual(SAFE_TUTOR_RESPONSE);
+    expect(result.errors).toEqual(['Response must be a JSON object']);
+  });
+
+  it('falls back when the repair request itself errors', async () => {
+    const result = await resolveTutorResponse('oops', extractJson, () => Promise.reject(new Error('429')));
+    expect(result.outcome).toBe('fallback');
+    expect(result.errors).toContain('Repair failed: 429');
+  });
+});
+
+describe('isFallbackResponse', () => {
+  it('recognizes fallbacks by content, not by object identity', () => {
+    expect(isFallbackResponse(JSON.parse(JSON.stringify(SAFE_TUTOR_RESPONSE)))).toBe(true);
+    expect(isFallbackResponse({ ...BUSY_TUTOR_RESPONSE })).toBe(true);
+    expect(isFallbackResponse({ message: 'Nice move!', mood: 'thinking' })).toBe(false);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Runtime schema for Gloop's structured replies, shared by the client
+ * (tutorService), the API route and the local server.js.
+ */
+
+export const TUTOR_MOODS = ['encouraging', 'thinking', 'surprised', 'celebrating'] as const;
+
+export type TutorMood = typeof TUTOR_MOODS[number];
+
+export interface TutorResponse {
+    message: string;
+    mood: TutorMood;
+    highlightSquare?: string;
+    drawArrow?: string; // Format: "e2-e4"
+    learnedFacts?: string[]; // New facts learned about the student
+}
+
+export type TutorSchemaResult =
+    | { success: true; data: TutorResponse }
+    | { success: false; errors: string[] };
+
+const SQUARE_PATTERN = /^[a-h][1-8]$/;
+const ARROW_PATTERN = /^[a-h][1-8]-[a-h][1-8]$/;
+
+// What every reply that can't be trusted turns into
+export const SAFE_TUTOR_RESPONSE: TutorResponse = {
+    message: "I'm having a little trouble thinking right now, but keep trying!",
+    mood: 'thinking'
+};
+
+// Sent when the provider is rate limited or out of quota
+export const BUSY_TUTOR_RESPONSE: TutorResponse = {
+    message: "Wow, I've been thinking too much today! My magic brain needs a little rest. Try again in a minute!",
+    mood: 'thinking'
+};
+
+/**
+ * Whether a reply is one of the fallbacks above rather than a real answer.
+ * Compares content, since a server fallback arrives as a new object.
+ */
+export function isFallbackResponse(response: TutorResponse): boolean {
+    return [SAFE_TUTOR_RESPONSE, BUSY_TUTOR_RESPONSE].some((fallback) => fallback.message === response.message);
+}
+
+// Models often send null or "" for optional fields they don't use
+const isAbsent = (value: unknown) => value === undefined || value === null || value === '';
+
+/**
+ * Checks a parsed reply against the schema. Squares and arrows are trimmed and
+ * lower-cased before checking; anything else that doesn't fit is an error.
+ */
+export function parseTutorResponse(value: unknown): TutorSchemaResult {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { success: false, errors: ['Response must be a JSON object'] };
+    }
+
+    const raw = value as Record<string, unknown>;
+    const errors: string[] = [];
+    const data: Partial<TutorResponse> = {};
+
+    if (typeof raw.message === 'string' && raw.message.trim()) {
+        data.message = raw.message;
+    } else {
+        errors.push('"message" must be a non-empty string');
+    }
+
+    if (TUTOR_MOODS.includes(raw.mood as TutorMood)) {
+        data.mood = raw.mood as TutorMood;
+    } else {
+        errors.push(`"mood" must be one of ${TUTOR_MOODS.join(', ')}`);
+    }
+
+    if (!isAbsent(raw.highlightSquare)) {
+        const square = typeof raw.highlightSquare === 'string' ? raw.highlightSquare.trim().toLowerCase() : '';
+        if (SQUARE_PATTERN.test(square)) {
+            data.highlightSquare = square;
+        } else {
+            errors.push('"highlightSquare" must be a square like "e4"');
+        }
+    }
+
+    if (!isAbsent(raw.drawArrow)) {
+        const arrow = typeof raw.drawArrow === 'string' ? raw.drawArrow.trim().toLowerCase() : '';
+        if (ARROW_PATTERN.test(arrow)) {
+            data.drawArrow = arrow;
+        } else {
+            errors.push('"drawArrow" must look like "e2-e4"');
+        }
+    }
+
+    if (!isAbsent(raw.learnedFacts)) {
+        if (Array.isArray(raw.learnedFacts) && raw.learnedFacts.every((fact) => typeof fact === 'string')) {
+            data.learnedFacts = raw.learnedFacts.filter((fact) => fact.trim());
+        } else {
+            errors.push('"learnedFacts" must be a list of strings');
+        }
+    }
+
+    return errors.length > 0 ? { success: false, errors } : { success: true, data: data as TutorResponse };
+}
+
+/** Follow-up message asking the model to fix a reply that failed the schema. */
+export function buildRepairPrompt(errors: string[]): string {
+    return `Your last reply could not be used:
+${errors.map((error) => `- ${error}`).join('\n')}
+
+Reply again with ONLY a JSON object, no other text:
+{"message": string, "mood": ${TUTOR_MOODS.map((mood) => `"${mood}"`).join(' | ')}, "highlightSquare"?: "e4", "drawArrow"?: "e2-e4", "learnedFacts"?: string[]}`;
+}
+
+export interface ResolvedTutorResponse {
+    response: TutorResponse;
+    outcome: 'valid' | 'repaired' | 'fallback';
+    errors: string[]; // Schema errors from the last failed attempt
+}
+
+/**
+ * Turns the model's text into a TutorResponse. A reply that fails the schema
+ * gets one repair attempt through `repair`; if that fails too, the result is
+ * SAFE_TUTOR_RESPONSE with outcome 'fallback' so the caller can count it.
+ */
+export async function resolveTutorResponse(
+    text: string,
+    parseJson: (text: string) => unknown,
+    repair: (repairPrompt: string) => Promise<string>
+): Promise<ResolvedTutorResponse> {
+    const first = parseTutorResponse(parseJson(text));
+    if (first.success) {
+        return { response: first.data, outcome: 'valid', errors: [] };
+    }
+
+    let errors = first.errors;
+    try {
+        const second = parseTutorResponse(parseJson(await repair(buildRepairPrompt(first.errors))));
+        if (second.success) {
+            return { response: second.data, outcome: 'repaired', errors: [] };
+        }
+        errors = second.errors;
+    } catch (error) {
+        errors = [...errors, `Repair failed: ${error instanceof Error ? error.message : String(error)}`];
+    }
+
+    return { response: SAFE_TUTOR_RESPONSE, outcome: 'fallback', errors };
+}